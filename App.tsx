@@ -1,30 +1,187 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import Experience from './components/Experience';
 import Overlay from './components/Overlay';
 import Cursor from './components/Cursor';
-import { TreeMode } from './types';
+import ShowControls from './components/ShowControls';
+import GiftMessageCard from './components/GiftMessageCard';
+import PhotoGallery from './components/PhotoGallery';
+import PhotoLightbox from './components/PhotoLightbox';
+import { MAX_POLAROIDS } from './components/PolaroidSystem';
+import { GreetingProvider, useGreeting } from './components/GreetingContext';
+import { TransitionProvider } from './components/TransitionDirector';
+import { isMusicCue, isTreeMode, useShowPlayer } from './components/ShowPlayer';
+import { QualityProvider, useQuality } from './components/QualityManager';
+import { ThemeProvider } from './components/ThemeContext';
+import { isProgram, LightsProvider, useLights } from './components/LightsContext';
+import { PhotoProvider, usePhotos } from './components/PhotoContext';
+import { MusicProvider } from './components/MusicContext';
+import { LyricsProvider } from './components/LyricsContext';
+import { SnapshotProvider } from './components/Snapshot';
+import { useVideoExport, VideoExportProvider } from './components/VideoExport';
+import { MusicCue, ShowStep, TreeMode } from './types';
 
-const App: React.FC = () => {
+const AppContent: React.FC = () => {
+  const { show, giftMessages } = useGreeting();
+  const { profile } = useQuality();
+  const { photos } = usePhotos();
   const [mode, setMode] = useState<TreeMode>(TreeMode.GIFT);
 
+  // Driven by the show timeline while it plays
+  const [cameraPreset, setCameraPreset] = useState<string>();
+  const [textPage, setTextPage] = useState<number>();
+  const [mosaicPhoto, setMosaicPhoto] = useState(0); // Also set from the lightbox
+  const [musicCue, setMusicCue] = useState<{ action: MusicCue; id: number }>();
+  const player = useShowPlayer(show);
+  const { setProgram: setLightProgram } = useLights();
+
+  const { recorder } = useVideoExport();
+
+  useEffect(() => {
+    const rejected = new Set<ShowStep>(); // Each bad step is reported once
+    const applyStep = (step: ShowStep) => {
+      // A step with an unknown mode is skipped whole; the scene stays as the last step left it
+      if (!isTreeMode(step.mode)) {
+        if (!rejected.has(step)) console.error(`Skipping show step with unknown mode "${step.mode}"`);
+        rejected.add(step);
+        return;
+      }
+      setMode(step.mode);
+      setCameraPreset(step.camera);
+      setTextPage(step.textPage);
+      if (step.photo !== undefined) setMosaicPhoto(step.photo);
+      const action = step.music;
+      if (isMusicCue(action)) setMusicCue((cue) => ({ action, id: (cue?.id ?? 0) + 1 }));
+      if (isProgram(step.lights)) setLightProgram(step.lights, false); // A show's cue isn't the visitor's choice
+    };
+
+    const offStep = player.on('step', applyStep);
+    // Hand the camera back to the user and the text back to the greeting once the show stops
+    const offPlay = player.on('playStateChange', (playing) => {
+      if (playing) return;
+      setCameraPreset(undefined);
+      setTextPage(undefined);
+    });
+
+    // A video recording plays the timeline itself, on its own fixed clock
+    const offRecordStep = recorder.on('step', applyStep);
+    const offRecording = recorder.on('stateChange', (recording) => {
+      if (recording) {
+        player.pause();
+      } else {
+        setCameraPreset(undefined);
+        setTextPage(undefined);
+      }
+    });
+
+    if (show.autoplay || new URLSearchParams(window.location.search).has('autoplay')) player.play();
+
+    return () => {
+      offStep();
+      offPlay();
+      offRecordStep();
+      offRecording();
+    };
+  }, [player, recorder, show, setLightProgram]);
+
+  // Clicking a gift under the tree opens it; the overlay shows its message until dismissed
+  const [openedGift, setOpenedGift] = useState<number>();
+  useEffect(() => setOpenedGift(undefined), [mode]);
+  const giftMessage = openedGift !== undefined && giftMessages.length > 0
+    ? giftMessages[openedGift % giftMessages.length]
+    : undefined;
+
+  // Clicking a Polaroid opens it in the lightbox; like any manual action it pauses the show
+  const [focusedPhoto, setFocusedPhoto] = useState<number>();
+  const polaroidCount = Math.min(photos.length, MAX_POLAROIDS);
+  useEffect(() => setFocusedPhoto(undefined), [mode, polaroidCount]);
+  const focusPhoto = (index: number) => {
+    player.pause();
+    setFocusedPhoto(index);
+  };
+  const navigatePhoto = (offset: -1 | 1) =>
+    setFocusedPhoto((index) => index === undefined ? index : (index + offset + polaroidCount) % polaroidCount);
+
+  // Any manual scene switch takes over from the show
+  const setModeManually = (next: TreeMode) => {
+    player.pause();
+    setMode(next);
+  };
+
+  const showMosaic = (index: number) => {
+    setMosaicPhoto(index);
+    setModeManually(TreeMode.MOSAIC);
+  };
+  // Wraps both ways: a show step may count back from the end with a negative index
+  const mosaicUrl = photos.length > 0 ? photos[((mosaicPhoto % photos.length) + photos.length) % photos.length].url : undefined;
+
+  return (
+    <TransitionProvider mode={mode}>
+      <div className="w-full h-screen bg-[var(--theme-background)] relative overflow-hidden">
+        <Cursor />
+        <Overlay
+          mode={mode}
+          setMode={setModeManually}
+          musicCue={musicCue}
+          dialogOpen={focusedPhoto !== undefined || giftMessage !== undefined}
+        />
+        <ShowControls player={player} hidden={mode === TreeMode.GIFT} />
+        <GiftMessageCard message={giftMessage} onClose={() => setOpenedGift(undefined)} />
+        <PhotoGallery hidden={mode === TreeMode.GIFT || focusedPhoto !== undefined} />
+        <PhotoLightbox
+          photo={focusedPhoto !== undefined ? photos[focusedPhoto] : undefined}
+          index={focusedPhoto ?? 0}
+          count={polaroidCount}
+          onNavigate={navigatePhoto}
+          onMosaic={() => focusedPhoto !== undefined && showMosaic(focusedPhoto)}
+          onClose={() => setFocusedPhoto(undefined)}
+        />
+
+        <Canvas
+          shadows
+          camera={{ position: [0, 8, 28], fov: 45 }}
+          dpr={profile.dpr} // Capped lower on weaker devices by the quality tier
+          gl={{ antialias: false, alpha: true, stencil: false, depth: true }}
+        >
+          <Experience
+            mode={mode}
+            cameraPreset={cameraPreset}
+            textPage={textPage}
+            openedGift={openedGift}
+            onOpenGift={setOpenedGift}
+            focusedPhoto={focusedPhoto}
+            onFocusPhoto={focusPhoto}
+            mosaicUrl={mosaicUrl}
+          />
+        </Canvas>
+      </div>
+    </TransitionProvider>
+  );
+};
+
+const App: React.FC = () => {
   return (
-    <div className="w-full h-screen bg-pink-100 relative overflow-hidden">
-      <Cursor />
-      <Overlay mode={mode} setMode={setMode} />
-      
-      <Canvas
-        shadows
-        camera={{ position: [0, 8, 28], fov: 45 }}
-        dpr={[1, 2]} // Handle pixel ratio for sharp rendering on mobile
-        gl={{ antialias: false, alpha: true, stencil: false, depth: true }}
-      >
-        <Experience mode={mode} />
-      </Canvas>
-    </div>
+    <GreetingProvider>
+      <ThemeProvider>
+        <LightsProvider>
+          <QualityProvider>
+            <PhotoProvider>
+              <MusicProvider>
+                <LyricsProvider>
+                  <SnapshotProvider>
+                    <VideoExportProvider>
+                      <AppContent />
+                    </VideoExportProvider>
+                  </SnapshotProvider>
+                </LyricsProvider>
+              </MusicProvider>
+            </PhotoProvider>
+          </QualityProvider>
+        </LightsProvider>
+      </ThemeProvider>
+    </GreetingProvider>
   );
 };
 
 export default App;
-    
\ No newline at end of file
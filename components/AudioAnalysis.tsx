@@ -0,0 +1,95 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { getMusicAnalyser } from './AudioGraph';
+
+// --- AUDIO ANALYSIS ---
+// The music's loudness in three bands, its overall energy and a beat pulse, read from the audio
+// graph's analyser once per frame. All values are 0..1. Without routed music (paused, not
+// started yet, or cross-origin without CORS) they settle back to 0, so reactive effects rest.
+
+export interface AudioLevels {
+  energy: number;
+  bass: number;
+  mid: number;
+  treble: number;
+  beat: number; // Jumps to 1 on a kick and fades out
+}
+
+export const audioLevels: AudioLevels = { energy: 0, bass: 0, mid: 0, treble: 0, beat: 0 };
+
+// The same values for shaders; share the objects so every material sees them
+export const audioUniforms = {
+  uAudioEnergy: { value: 0 },
+  uAudioBass: { value: 0 },
+  uAudioBeat: { value: 0 },
+};
+
+const BANDS: Record<'bass' | 'mid' | 'treble', [number, number]> = {
+  bass: [20, 150], // Hz
+  mid: [150, 2000],
+  treble: [2000, 10000],
+};
+
+const ATTACK = 30; // Per second; levels rise almost at once...
+const RELEASE = 6; // ...and fall back more gently
+const BEAT_RATIO = 1.35; // Bass this far over its recent average counts as a beat
+const BEAT_FLOOR = 0.3; // Ignore "beats" in near silence
+const BEAT_COOLDOWN = 0.25; // Seconds; at most four beats a second
+const BEAT_DECAY = 4; // The pulse fades out in a quarter of a second
+const AVERAGE_RATE = 1.5; // Per second; how fast the bass average follows the music
+
+let spectrum: Uint8Array<ArrayBuffer> | null = null;
+let bassAverage = 0;
+let sinceBeat = Infinity;
+
+const ease = (current: number, next: number, delta: number) =>
+  current + (next - current) * (1 - Math.exp(-delta * (next > current ? ATTACK : RELEASE)));
+
+const getBandLevel = (data: Uint8Array, binWidth: number, [low, high]: [number, number]) => {
+  const from = Math.max(1, Math.floor(low / binWidth));
+  const to = Math.min(data.length, Math.ceil(high / binWidth));
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += data[i];
+  return to > from ? sum / ((to - from) * 255) : 0;
+};
+
+const update = (delta: number) => {
+  const analyser = getMusicAnalyser();
+
+  let bass = 0;
+  let mid = 0;
+  let treble = 0;
+  if (analyser && analyser.context.state === 'running') {
+    if (spectrum?.length !== analyser.frequencyBinCount) spectrum = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(spectrum);
+    const binWidth = analyser.context.sampleRate / analyser.fftSize;
+    bass = getBandLevel(spectrum, binWidth, BANDS.bass);
+    mid = getBandLevel(spectrum, binWidth, BANDS.mid);
+    treble = getBandLevel(spectrum, binWidth, BANDS.treble);
+  }
+
+  // A kick is the bass jumping above where it has been lately
+  sinceBeat += delta;
+  if (bass > BEAT_FLOOR && bass > bassAverage * BEAT_RATIO && sinceBeat > BEAT_COOLDOWN) {
+    audioLevels.beat = 1;
+    sinceBeat = 0;
+  } else {
+    audioLevels.beat = Math.max(0, audioLevels.beat - delta * BEAT_DECAY);
+  }
+  bassAverage += (bass - bassAverage) * (1 - Math.exp(-delta * AVERAGE_RATE));
+
+  audioLevels.bass = ease(audioLevels.bass, bass, delta);
+  audioLevels.mid = ease(audioLevels.mid, mid, delta);
+  audioLevels.treble = ease(audioLevels.treble, treble, delta);
+  audioLevels.energy = ease(audioLevels.energy, bass * 0.5 + mid * 0.35 + treble * 0.15, delta);
+
+  audioUniforms.uAudioEnergy.value = audioLevels.energy;
+  audioUniforms.uAudioBass.value = audioLevels.bass;
+  audioUniforms.uAudioBeat.value = audioLevels.beat;
+};
+
+// Lives inside the Canvas; runs before the scene's own frame callbacks
+export const AudioDriver: React.FC = () => {
+  useFrame((_, delta) => update(delta), -2);
+  return null;
+};
@@ -0,0 +1,82 @@
+// --- AUDIO GRAPH ---
+// The music player's output, routed through WebAudio so the scene can react to it and it can
+// be recorded along with the video. The graph is built lazily the first time something needs
+// it and shared from then on.
+// Routing is decided per track: cross-origin music served without CORS headers would only
+// carry silence through the graph, so the deck playing it is left alone: it still plays, but
+// isn't analysed or recorded. Same-origin, blob and data URLs go through the graph.
+
+export interface AudioGraph {
+  context: AudioContext;
+  output: GainNode; // Everything audible passes through here on its way to the speakers
+  analyser: AnalyserNode; // Listens to the output, feeds the audio-reactive effects
+}
+
+let musicElements: HTMLAudioElement[] = [];
+let graph: AudioGraph | null = null;
+// Every element already wired in. createMediaElementSource throws the second time and an
+// element can't be unwired, so a wired element may only ever play routable music.
+const sources = new WeakMap<HTMLAudioElement, MediaElementAudioSourceNode>();
+
+export const isRoutable = (src: string) => {
+  const url = new URL(src, window.location.href);
+  return url.protocol === 'blob:' || url.protocol === 'data:' || url.origin === window.location.origin;
+};
+
+export const isMusicRouted = (element: HTMLAudioElement) => sources.has(element);
+
+// Wires an element into the graph once it holds routable music; does nothing before the graph exists
+export const routeMusic = (element: HTMLAudioElement) => {
+  if (!graph) return;
+  let source = sources.get(element);
+  if (!source) {
+    const src = element.getAttribute('src');
+    if (!src || !isRoutable(src)) return;
+    source = graph.context.createMediaElementSource(element);
+    sources.set(element, source);
+  }
+  source.connect(graph.output); // Connecting twice is a no-op
+};
+
+// Called by the music player with its decks' current elements
+export const registerMusic = (elements: HTMLAudioElement[]) => {
+  musicElements.forEach((element) => {
+    if (!elements.includes(element)) sources.get(element)?.disconnect();
+  });
+  musicElements = elements;
+  musicElements.forEach(routeMusic);
+};
+
+export const getMusicElements = () => musicElements;
+
+// Builds the graph on first use; call from a user gesture so the context is allowed to start
+export const getAudioGraph = (): AudioGraph => {
+  if (!graph) {
+    const context = new AudioContext();
+    const output = context.createGain();
+    output.connect(context.destination);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.smoothingTimeConstant = 0.6;
+    output.connect(analyser);
+    graph = { context, output, analyser };
+    musicElements.forEach(routeMusic);
+  }
+  if (graph.context.state === 'suspended') graph.context.resume();
+  return graph;
+};
+
+// The analyser if the graph is already built; never builds it, so it is safe to call every frame
+export const getMusicAnalyser = (): AnalyserNode | null => graph?.analyser ?? null;
+
+// A stream carrying what the routed decks play, for MediaRecorder; call the returned function when done
+export const tapMusicStream = (): { stream: MediaStream; release: () => void } | null => {
+  if (musicElements.length === 0) return null;
+  const audio = getAudioGraph();
+  const destination = audio.context.createMediaStreamDestination();
+  audio.output.connect(destination);
+  return {
+    stream: destination.stream,
+    release: () => audio.output.disconnect(destination),
+  };
+};
@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { TreeMode } from '../types';
+import { EventEmitter } from './EventEmitter';
+import { Easing, EASINGS } from './TransitionDirector';
+import { AUTO_ORBIT_MODES, CAMERA_SHOTS, CameraShot, MAX_POLAR_ANGLE, MIN_POLAR_ANGLE, MODE_SHOTS } from './CameraPresets';
+import { PolaroidFocus, POLAROID_SIZE } from './PolaroidSystem';
+import { fitShot, getModeBounds, onModeBoundsChange } from './CameraFit';
+
+// --- CAMERA DIRECTOR ---
+// Flies the camera between named shots along a curved path, circles the tree while nobody
+// is touching it, and gets out of the way the moment the user grabs the OrbitControls.
+
+export interface CameraEvents {
+  shotStart: [shot: CameraShot];
+  shotComplete: [shot: CameraShot];
+  takeOver: []; // The user started dragging or zooming
+}
+
+// Structural subset of three's OrbitControls that the director drives
+interface ControlsLike {
+  target: THREE.Vector3;
+  enabled: boolean;
+  autoRotate: boolean;
+  autoRotateSpeed: number;
+}
+
+interface Flight {
+  shot: CameraShot;
+  path: THREE.Curve<THREE.Vector3> | null; // null when start and end are practically the same spot
+  fromPosition: THREE.Vector3;
+  toPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  fromFov: number;
+  toFov: number;
+  duration: number;
+  easing: Easing;
+  progress: number;
+  lockControls: boolean;
+}
+
+export interface FlyOptions {
+  lockControls?: boolean; // Keep the user's controls off until the camera lands
+}
+
+const IDLE_DELAY = 5; // Seconds without interaction before auto-orbit starts
+const AUTO_ORBIT_SPEED = 0.4; // OrbitControls units (2 = one turn a minute at 60fps)
+
+export class CameraDirector extends EventEmitter<CameraEvents> {
+  autoOrbit = false;
+
+  private camera: THREE.PerspectiveCamera | null = null;
+  private controls: ControlsLike | null = null;
+  private flight: Flight | null = null;
+  private interacting = false;
+  private idleTime = 0;
+
+  attach(camera: THREE.PerspectiveCamera, controls: ControlsLike | null) {
+    this.camera = camera;
+    this.controls = controls;
+  }
+
+  get isFlying() {
+    return this.flight !== null;
+  }
+
+  flyTo(shot: CameraShot, options: FlyOptions = {}) {
+    const camera = this.camera;
+    if (!camera) return;
+
+    const fromPosition = camera.position.clone();
+    const fromTarget = this.controls ? this.controls.target.clone() : new THREE.Vector3(...shot.target);
+    const toPosition = new THREE.Vector3(...shot.position);
+    const toTarget = new THREE.Vector3(...shot.target);
+    const distance = fromPosition.distanceTo(toPosition);
+
+    this.finish(false);
+    this.flight = {
+      shot,
+      path: distance > 0.5 ? createArcPath(fromPosition, toPosition, toTarget) : null,
+      fromPosition,
+      toPosition,
+      fromTarget,
+      toTarget,
+      fromFov: camera.fov,
+      toFov: shot.fov ?? camera.fov,
+      duration: shot.duration ?? THREE.MathUtils.clamp(distance / 10, 1.2, 3.5),
+      easing: EASINGS[shot.easing ?? 'easeInOutCubic'],
+      progress: 0,
+      lockControls: options.lockControls ?? false,
+    };
+    if (this.flight.lockControls && this.controls) this.controls.enabled = false;
+    this.emit('shotStart', shot);
+  }
+
+  // The user grabbed the controls: drop whatever the camera was doing
+  takeOver() {
+    this.interacting = true;
+    this.idleTime = 0;
+    if (this.flight && !this.flight.lockControls) {
+      this.flight = null;
+      this.emit('takeOver');
+    }
+  }
+
+  release() {
+    this.interacting = false;
+    this.idleTime = 0;
+  }
+
+  update(delta: number) {
+    const camera = this.camera;
+    if (!camera) return;
+    if (!this.interacting) this.idleTime += delta;
+
+    const flight = this.flight;
+    if (flight) {
+      flight.progress = Math.min(flight.progress + delta / flight.duration, 1);
+      const t = flight.easing(flight.progress);
+
+      if (flight.path) camera.position.copy(flight.path.getPoint(t));
+      else camera.position.lerpVectors(flight.fromPosition, flight.toPosition, t);
+
+      const target = this.controls?.target ?? new THREE.Vector3();
+      target.lerpVectors(flight.fromTarget, flight.toTarget, t);
+      camera.lookAt(target);
+
+      if (flight.fromFov !== flight.toFov) {
+        camera.fov = THREE.MathUtils.lerp(flight.fromFov, flight.toFov, t);
+        camera.updateProjectionMatrix();
+      }
+
+      if (flight.progress >= 1) this.finish(true);
+    }
+
+    if (this.controls) {
+      this.controls.autoRotate = this.autoOrbit && !this.flight && !this.interacting && this.idleTime > IDLE_DELAY;
+      this.controls.autoRotateSpeed = AUTO_ORBIT_SPEED;
+    }
+  }
+
+  private finish(completed: boolean) {
+    const flight = this.flight;
+    if (!flight) return;
+    this.flight = null;
+    if (flight.lockControls && this.controls) this.controls.enabled = true;
+    // Landing counts as a fresh start for the idle timer, so the orbit doesn't kick in right away
+    this.idleTime = 0;
+    if (completed) this.emit('shotComplete', flight.shot);
+  }
+}
+
+// A gentle arc around the look-at point instead of a straight line through the tree
+const createArcPath = (from: THREE.Vector3, to: THREE.Vector3, center: THREE.Vector3) => {
+  const a = from.clone().sub(center);
+  const b = to.clone().sub(center);
+  const mid = a.clone().add(b).multiplyScalar(0.5);
+  if (mid.lengthSq() < 1e-4) mid.set(-a.z, 0, a.x); // Opposite sides: swing round the side
+  mid.setLength(Math.max(a.length(), b.length()));
+  mid.add(center);
+  mid.y += from.distanceTo(to) * 0.1;
+  return new THREE.CatmullRomCurve3([from.clone(), mid, to.clone()], false, 'centripetal');
+};
+
+// --- CAMERA RIG ---
+// OrbitControls plus the director, wired to the scene state. Also flies in front of the
+// Polaroid open in the lightbox and back to the previous view afterwards.
+
+interface CameraRigProps {
+  mode: TreeMode;
+  shot?: string; // Set by the show timeline; wins over the mode's own shot
+  focusedPhoto?: number;
+  focus: PolaroidFocus;
+}
+
+// Part of the view the focused Polaroid should fill
+const FOCUS_FILL = 0.85;
+
+// Zoom limit, raised when a narrow screen needs the camera further back to fit the content
+const MAX_DISTANCE = 40;
+
+export const CameraRig: React.FC<CameraRigProps> = ({ mode, shot, focusedPhoto, focus }) => {
+  const controlsRef = useRef<React.ComponentRef<typeof OrbitControls>>(null);
+  const camera = useThree((state) => state.camera) as THREE.PerspectiveCamera;
+  const scene = useThree((state) => state.scene);
+  const size = useThree((state) => state.size);
+  const get = useThree((state) => state.get);
+  const director = useMemo(() => new CameraDirector(), []);
+
+  const savedView = useRef<CameraShot | null>(null);
+  const focusCameraPos = useMemo(() => new THREE.Vector3(), []);
+
+  // The shot the camera is on before fitting, until the user takes over; refitted on resize
+  const directing = useRef<CameraShot | null>(null);
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+
+  // How far fitting pulled the camera back; the fog moves back with it
+  const pushBack = useRef(0);
+  const fogBase = useRef<{ fog: THREE.Fog; near: number; far: number } | null>(null);
+
+  const direct = (base: CameraShot, duration?: number) => {
+    const { width, height } = get().size;
+    const fitted = fitShot(base, getModeBounds(modeRef.current), width / Math.max(height, 1), camera.fov);
+    const distance = new THREE.Vector3(...fitted.position).distanceTo(new THREE.Vector3(...fitted.target));
+    const baseDistance = new THREE.Vector3(...base.position).distanceTo(new THREE.Vector3(...base.target));
+
+    directing.current = base;
+    pushBack.current = distance - baseDistance;
+    if (controlsRef.current) controlsRef.current.maxDistance = Math.max(MAX_DISTANCE, distance);
+    director.flyTo(duration === undefined ? fitted : { ...fitted, duration });
+  };
+
+  useEffect(() => {
+    director.attach(camera, controlsRef.current);
+  }, [director, camera]);
+
+  // A show step's shot, whenever it changes
+  useEffect(() => {
+    const named = shot && CAMERA_SHOTS[shot];
+    if (named) direct(named);
+  }, [director, shot]);
+
+  // The mode's own shot, unless a show step is already directing the camera (then refit that one)
+  const shotRef = useRef(shot);
+  shotRef.current = shot;
+  useEffect(() => {
+    director.autoOrbit = AUTO_ORBIT_MODES.includes(mode);
+    const name = shotRef.current || MODE_SHOTS[mode];
+    if (name && CAMERA_SHOTS[name]) direct(CAMERA_SHOTS[name]);
+  }, [director, mode]);
+
+  // Resizes and rotations refit whatever shot the camera is on
+  const lastSize = useRef(size);
+  useEffect(() => {
+    if (lastSize.current.width === size.width && lastSize.current.height === size.height) return;
+    lastSize.current = size;
+    if (directing.current && focusedPhoto === undefined) direct(directing.current, 0.6);
+  }, [size.width, size.height]);
+
+  // New content (another text page, more photos) refits the shot of the mode it belongs to
+  const focusedRef = useRef(focusedPhoto);
+  focusedRef.current = focusedPhoto;
+  useEffect(
+    () =>
+      onModeBoundsChange((changed) => {
+        if (changed === modeRef.current && directing.current && focusedRef.current === undefined) direct(directing.current);
+      }),
+    [director]
+  );
+
+  useEffect(() => {
+    focus.ready = false;
+  }, [focus, focusedPhoto]);
+
+  useFrame((_, delta) => {
+    const controls = controlsRef.current;
+
+    const fog = scene.fog;
+    if (fog instanceof THREE.Fog) {
+      if (fogBase.current?.fog !== fog) fogBase.current = { fog, near: fog.near, far: fog.far };
+      const ease = Math.min(delta * 2, 1);
+      fog.near = THREE.MathUtils.lerp(fog.near, fogBase.current.near + pushBack.current, ease);
+      fog.far = THREE.MathUtils.lerp(fog.far, fogBase.current.far + pushBack.current, ease);
+    }
+
+    // Lightbox: follow the focused Polaroid; the user can't orbit away while it is open
+    if (focusedPhoto !== undefined && controls) {
+      if (!savedView.current) {
+        savedView.current = {
+          position: camera.position.toArray() as [number, number, number],
+          target: controls.target.toArray() as [number, number, number],
+          fov: camera.fov,
+        };
+      }
+      controls.enabled = false;
+      controls.autoRotate = false;
+      if (!focus.ready) return;
+
+      // Close enough for the frame to fill the view, limited by whichever of width or height is tighter
+      const [frameWidth, frameHeight] = POLAROID_SIZE;
+      const fitHeight = (frameHeight * focus.scale) / FOCUS_FILL / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2));
+      const fitWidth = (fitHeight * (frameWidth / frameHeight)) / camera.aspect;
+      focusCameraPos.copy(focus.normal).multiplyScalar(Math.max(fitHeight, fitWidth)).add(focus.position);
+
+      const ease = Math.min(delta * 3, 1);
+      camera.position.lerp(focusCameraPos, ease);
+      controls.target.lerp(focus.position, ease);
+      camera.lookAt(controls.target);
+      return;
+    }
+
+    // Lightbox closed: fly back to where the user was, controls locked until we land
+    if (savedView.current) {
+      director.flyTo({ ...savedView.current, duration: 1.2 }, { lockControls: true });
+      savedView.current = null;
+    }
+
+    director.update(delta);
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      enablePan={false}
+      minPolarAngle={MIN_POLAR_ANGLE}
+      maxPolarAngle={MAX_POLAR_ANGLE}
+      minDistance={10}
+      maxDistance={MAX_DISTANCE}
+      target={[0, 2, 0]}
+      onStart={() => {
+        directing.current = null;
+        director.takeOver();
+      }}
+      onEnd={() => director.release()}
+    />
+  );
+};
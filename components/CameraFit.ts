@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import { TreeMode } from '../types';
+import { CameraShot } from './CameraPresets';
+
+// --- FRUSTUM FIT ---
+// Each mode's content as a few world-space boxes. Before the camera flies to a shot, the shot is
+// widened (fov first, distance once the fov is maxed out) until the boxes fit the viewport,
+// so portrait phones see the whole tree, text and ribbons instead of a crop.
+
+// --- REPORTED BOUNDS ---
+// The content components report the boxes their layouts fill in each mode, worked out from the
+// same target positions they move to, so a longer greeting or a bigger gallery is fitted as it
+// is. CHAOS (and GIFT, which keeps its layout) is a cloud meant to overflow the view: no boxes.
+
+const reported = new Map<TreeMode, Map<string, THREE.Box3>>();
+const listeners = new Set<(mode: TreeMode) => void>();
+
+// `source` tells apart the boxes of different components in the same mode; null withdraws one
+export const setModeBounds = (mode: TreeMode, source: string, bounds: THREE.Box3 | null) => {
+  let boxes = reported.get(mode);
+  if (!boxes) reported.set(mode, (boxes = new Map()));
+  if (bounds) {
+    if (boxes.get(source)?.equals(bounds)) return; // Same box again: the shot still fits
+    boxes.set(source, bounds);
+  } else if (!boxes.delete(source)) return;
+  listeners.forEach((listener) => listener(mode));
+};
+
+// Withdraws everything a component reported, for when it unmounts
+export const clearModeBounds = (source: string) => {
+  reported.forEach((_, mode) => setModeBounds(mode, source, null));
+};
+
+export const getModeBounds = (mode: TreeMode): THREE.Box3[] | undefined => {
+  const boxes = reported.get(mode);
+  return boxes && boxes.size > 0 ? [...boxes.values()] : undefined;
+};
+
+// Called with the mode whose boxes changed; returns the unsubscribe function
+export const onModeBoundsChange = (listener: (mode: TreeMode) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Box around layout points (x, y, z triples) given in `space`'s coordinates, moved to world space.
+// `spin` is for layouts that turn about their y axis: the box then covers them at every angle.
+// `margin` makes room for the size of whatever sits on each point.
+export const getLayoutBounds = (
+  points: ArrayLike<number>,
+  space: THREE.Object3D,
+  { spin = false, margin = 0 }: { spin?: boolean; margin?: number } = {}
+): THREE.Box3 | null => {
+  const bounds = new THREE.Box3();
+  const point = new THREE.Vector3();
+  let radius = 0;
+  for (let i = 0; i + 2 < points.length; i += 3) {
+    bounds.expandByPoint(point.set(points[i], points[i + 1], points[i + 2]));
+    radius = Math.max(radius, Math.hypot(point.x, point.z));
+  }
+  if (bounds.isEmpty()) return null;
+  if (spin) {
+    bounds.min.x = bounds.min.z = -radius;
+    bounds.max.x = bounds.max.z = radius;
+  }
+  space.updateWorldMatrix(true, false);
+  return bounds.expandByScalar(margin).applyMatrix4(space.matrixWorld);
+};
+
+const FIT_MARGIN = 0.05; // Share of the view kept clear at each edge
+const MAX_FIT_FOV = 75; // Degrees; wider than this looks warped, so pull back instead
+
+const UP = new THREE.Vector3(0, 1, 0);
+const temp = {
+  target: new THREE.Vector3(),
+  back: new THREE.Vector3(),
+  right: new THREE.Vector3(),
+  up: new THREE.Vector3(),
+  corner: new THREE.Vector3(),
+};
+
+// Corners in view space around the target: x right, y up, z towards the camera
+const getViewCorners = (bounds: THREE.Box3[], position: THREE.Vector3, target: THREE.Vector3) => {
+  const { back, right, up, corner } = temp;
+  back.subVectors(position, target).normalize();
+  right.crossVectors(UP, back).normalize();
+  up.crossVectors(back, right);
+
+  const corners: [number, number, number][] = [];
+  for (const { min, max } of bounds) {
+    for (let i = 0; i < 8; i++) {
+      corner.set(i & 1 ? max.x : min.x, i & 2 ? max.y : min.y, i & 4 ? max.z : min.z).sub(target);
+      corners.push([corner.dot(right), corner.dot(up), corner.dot(back)]);
+    }
+  }
+  return corners;
+};
+
+// Half-height tangent of the vertical fov needed to see every corner from this distance
+const getRequiredTan = (corners: [number, number, number][], distance: number, aspect: number) => {
+  let tan = 0;
+  for (const [x, y, z] of corners) {
+    const depth = Math.max(distance - z, 0.001);
+    tan = Math.max(tan, Math.abs(y) / depth, Math.abs(x) / (depth * aspect));
+  }
+  return tan / (1 - FIT_MARGIN);
+};
+
+// Distance from the target at which every corner fits a given vertical half-fov tangent
+const getRequiredDistance = (corners: [number, number, number][], tan: number, aspect: number) => {
+  const usable = tan * (1 - FIT_MARGIN);
+  let distance = 0;
+  for (const [x, y, z] of corners) {
+    distance = Math.max(distance, Math.abs(y) / usable + z, Math.abs(x) / (usable * aspect) + z);
+  }
+  return distance;
+};
+
+// The shot, widened just enough for the boxes; shots that already fit come back as they were
+export const fitShot = (shot: CameraShot, bounds: THREE.Box3[] | undefined, aspect: number, currentFov: number): CameraShot => {
+  if (!bounds || shot.fit === false) return shot;
+
+  const position = new THREE.Vector3(...shot.position);
+  const target = temp.target.set(...shot.target);
+  const distance = position.distanceTo(target);
+  const corners = getViewCorners(bounds, position, target);
+
+  const fov = shot.fov ?? currentFov;
+  const neededFov = THREE.MathUtils.radToDeg(2 * Math.atan(getRequiredTan(corners, distance, aspect)));
+  const fittedFov = Math.min(Math.max(fov, neededFov), Math.max(fov, MAX_FIT_FOV));
+  const fittedTan = Math.tan(THREE.MathUtils.degToRad(fittedFov) / 2);
+  const fittedDistance = Math.max(distance, getRequiredDistance(corners, fittedTan, aspect));
+
+  if (fittedFov === fov && fittedDistance === distance) return shot;
+
+  position.sub(target).setLength(fittedDistance).add(target);
+  return { ...shot, position: position.toArray() as [number, number, number], fov: fittedFov };
+};
@@ -0,0 +1,40 @@
+import { TreeMode } from '../types';
+import { EASINGS } from './TransitionDirector';
+
+// Named camera shots that modes and show steps can refer to.
+// Targets are in world space; the tree itself sits in a group lowered by 5 units.
+
+export interface CameraShot {
+  position: [number, number, number];
+  target: [number, number, number];
+  fov?: number; // Degrees; the camera keeps its current fov when omitted
+  duration?: number; // Seconds to fly there; derived from the distance when omitted
+  easing?: keyof typeof EASINGS;
+  fit?: boolean; // Widen the shot until the mode's content fits the viewport (default true)
+}
+
+// How far above and below the target the orbit controls let the camera go, measured from
+// straight up. Shots must stay inside these, or the controls snap the camera back when they
+// take over after the flight.
+export const MIN_POLAR_ANGLE = Math.PI / 3;
+export const MAX_POLAR_ANGLE = Math.PI / 1.8;
+
+export const CAMERA_SHOTS: Record<string, CameraShot> = {
+  front: { position: [0, 8, 28], target: [0, 2, 0], fov: 45 },
+  tree: { position: [0, 6, 25], target: [0, 3, 0], fov: 45, duration: 3, easing: 'easeInOutSine' },
+  high: { position: [0, 15, 25], target: [0, 2, 0], fov: 50 }, // Near the top limit
+  close: { position: [9, 4, 14], target: [0, 3, 0], fov: 40, fit: false },
+  low: { position: [0, 2, 22], target: [0, 5, 0], fov: 45 }, // Near the bottom limit
+};
+
+// Shot the camera flies to when a mode is entered (unless a show step names its own)
+export const MODE_SHOTS: Partial<Record<TreeMode, string>> = {
+  [TreeMode.CHAOS]: 'front',
+  [TreeMode.FORMED]: 'tree',
+  [TreeMode.TEXT]: 'front',
+  [TreeMode.PHOTOS]: 'front',
+  [TreeMode.MOSAIC]: 'front',
+};
+
+// Modes where the camera slowly circles the tree once the user leaves it alone
+export const AUTO_ORBIT_MODES: TreeMode[] = [TreeMode.FORMED];
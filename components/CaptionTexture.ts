@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { areFontsReady, FontFaceRequest, loadFonts } from './FontLoader';
+
+// --- POLAROID CAPTIONS ---
+// Captions are drawn into a canvas in a handwriting face, wrapped and shrunk until they
+// fit the strip under the photo, with an optional camera-style date stamp in the corner.
+
+export const CAPTION_FONT: FontFaceRequest = { family: 'Dancing Script', weight: 700 };
+
+// Canvas matches the caption plane's aspect (1.1 x 0.275 world units)
+export const CAPTION_CANVAS = { width: 1024, height: 256 };
+export const CAPTION_PLANE: [number, number] = [1.1, 0.275];
+
+const PADDING = 36;
+const MAX_FONT_SIZE = 112;
+const MIN_FONT_SIZE = 28;
+const LINE_HEIGHT = 1.05;
+const INK = '#2b3a67';
+const STAMP_COLOR = '#ff8a1f';
+const STAMP_FONT = 'bold 30px "Courier New", monospace';
+
+const fontString = (size: number) => `${CAPTION_FONT.weight} ${size}px "${CAPTION_FONT.family}", cursive`;
+
+// Greedy word wrap; words wider than a line (or text without spaces, like Chinese) break per character
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+
+  const pushToken = (token: string, separator: string) => {
+    const candidate = line ? line + separator + token : token;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+      return true;
+    }
+    return false;
+  };
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    if (pushToken(word, ' ')) return;
+    if (line) lines.push(line);
+    line = '';
+    if (pushToken(word, '')) return;
+
+    for (const char of word) {
+      if (!pushToken(char, '')) {
+        lines.push(line);
+        line = char;
+      }
+    }
+  });
+
+  if (line) lines.push(line);
+  return lines;
+};
+
+// "2024-12-25" -> "'24 12 25", like the stamp an old film camera burns into the corner
+export const formatDateStamp = (date: string) => {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(date.trim());
+  if (!match) return date.trim();
+  const [, year, month, day] = match;
+  return `'${year.slice(2)} ${month.padStart(2, '0')} ${day.padStart(2, '0')}`;
+};
+
+export const drawCaption = (caption = '', date?: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CAPTION_CANVAS.width;
+  canvas.height = CAPTION_CANVAS.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  // Date stamp sits in the bottom-right corner and takes its height from the text area
+  let stampHeight = 0;
+  if (date) {
+    ctx.font = STAMP_FONT;
+    ctx.fillStyle = STAMP_COLOR;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(formatDateStamp(date), canvas.width - PADDING, canvas.height - 12);
+    stampHeight = 36;
+  }
+
+  const text = caption.trim();
+  if (!text) return canvas;
+
+  const maxWidth = canvas.width - PADDING * 2;
+  const maxHeight = canvas.height - stampHeight - 16;
+
+  // Shrink until every line fits; at the minimum size, cut the overflow with an ellipsis
+  let size = MAX_FONT_SIZE;
+  let lines: string[] = [];
+  for (; size >= MIN_FONT_SIZE; size -= 4) {
+    ctx.font = fontString(size);
+    lines = wrapText(ctx, text, maxWidth);
+    if (lines.length * size * LINE_HEIGHT <= maxHeight) break;
+  }
+  if (size < MIN_FONT_SIZE) {
+    size = MIN_FONT_SIZE;
+    ctx.font = fontString(size);
+    const maxLines = Math.max(1, Math.floor(maxHeight / (size * LINE_HEIGHT)));
+    if (lines.length > maxLines) {
+      lines = lines.slice(0, maxLines);
+      let last = lines[maxLines - 1];
+      while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+      lines[maxLines - 1] = `${last}…`;
+    }
+  }
+
+  ctx.fillStyle = INK;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const lineHeight = size * LINE_HEIGHT;
+  const top = (maxHeight - lines.length * lineHeight) / 2 + 8;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, canvas.width / 2, top + lineHeight * (i + 0.5));
+  });
+
+  return canvas;
+};
+
+// Texture for one frame's caption; redrawn once the handwriting face has loaded
+export const useCaptionTexture = (caption?: string, date?: string) => {
+  const [fontVersion, setFontVersion] = useState(0);
+  const hasContent = !!(caption?.trim() || date);
+
+  const texture = useMemo(() => {
+    if (!hasContent) return null;
+    const canvasTexture = new THREE.CanvasTexture(drawCaption(caption, date));
+    canvasTexture.colorSpace = THREE.SRGBColorSpace;
+    canvasTexture.anisotropy = 4;
+    return canvasTexture;
+  }, [caption, date, hasContent, fontVersion]);
+
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  useEffect(() => {
+    if (!hasContent || areFontsReady([CAPTION_FONT])) return;
+    let cancelled = false;
+    loadFonts([CAPTION_FONT]).then((loaded) => {
+      if (loaded && !cancelled) setFontVersion((v) => v + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hasContent]);
+
+  return texture;
+};
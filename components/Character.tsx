@@ -1,46 +1,205 @@
-
-import React, { useRef } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useMemo, useRef } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { COLORS, TreeMode } from '../types';
+import { TreeMode } from '../types';
+import { useTransitionDirector, useTransitionEvent } from './TransitionDirector';
+import { useGreeting } from './GreetingContext';
+import { createRng } from './Random';
+import { SnapshotSize, useSnapshot } from './Snapshot';
+import { usePhotos } from './PhotoContext';
+import { themeColors } from './ThemeContext';
+
+// --- STATE MACHINE ---
+// The character sits on a gift while the tree is scattered, stands up as it forms and waves once
+// it has. Clicking them on the formed tree makes them take a selfie, which lands on a Polaroid.
+
+export type CharacterState = 'sitting' | 'standing' | 'waving' | 'selfie';
+
+// Timed states fall back to `next` once they have played out
+const TIMED_STATES: Partial<Record<CharacterState, { duration: number; next: CharacterState }>> = {
+  waving: { duration: 2.8, next: 'standing' },
+  selfie: { duration: 2.6, next: 'standing' },
+};
+
+const SELFIE_SHUTTER = 1.0; // Seconds into the selfie: the arm is up by then
+
+// --- POSES ---
+
+interface Pose {
+  lift: number; // Raises the body off the seat
+  step: number; // Moves it forward, clear of the seat
+  hips: [number, number]; // Left and right thigh swing (X)
+  knees: [number, number];
+  shoulder: [number, number, number]; // Right arm
+  elbow: [number, number, number];
+  head: number; // Nod (X)
+}
+
+// The phone held at the chest, as originally modelled
+const HOLDING_PHONE = { shoulder: [0, 0, -0.2], elbow: [-2.5, 0.5, 0] } as Pick<Pose, 'shoulder' | 'elbow'>;
+
+const STANDING: Pose = { lift: 0.47, step: 0.35, hips: [0.05, -0.05], knees: [0.05, 0.1], ...HOLDING_PHONE, head: 0 };
+
+const POSES: Record<CharacterState, Pose> = {
+  sitting: { lift: 0, step: 0, hips: [-1.45, -1.35], knees: [1.35, 1.9], ...HOLDING_PHONE, head: 0 },
+  standing: STANDING,
+  // Arm up and out to the side, forearm upright (swung while waving)
+  waving: { ...STANDING, shoulder: [0, 0, 2.6], elbow: [0, 0, -2.6], head: -0.05 },
+  // Arm stretched forward and up, phone held in front of the face
+  selfie: { ...STANDING, shoulder: [-1.7, 0, -0.25], elbow: [-3.48, 0, 0], head: -0.15 },
+};
+
+const POSE_SPEED = 5; // Per second; a pose change mostly settles in half a second
+const WAVE_SPEED = 9;
+const WAVE_SWING = 0.35;
+
+// --- SELFIE ---
+
+const SELFIE_SIZE: SnapshotSize = { id: 'selfie', label: 'Selfie', long: 1024, short: 1024 };
+const SELFIE_FOV = 60;
+const SELFIE_REACH = 2.5; // The lens backs off along the arm this many times, so the tree fits in
+const FLASH_INTENSITY = 30;
+const FLASH_DECAY = 6; // Per second
 
 interface CharacterProps {
-    mode?: TreeMode; // Optional for backward compatibility, though we pass it now
+    mode: TreeMode;
 }
 
 export const Character: React.FC<CharacterProps> = ({ mode }) => {
   const group = useRef<THREE.Group>(null);
+  const bodyRef = useRef<THREE.Group>(null);
   const headRef = useRef<THREE.Group>(null);
+  const leftHipRef = useRef<THREE.Group>(null);
+  const rightHipRef = useRef<THREE.Group>(null);
+  const leftKneeRef = useRef<THREE.Group>(null);
+  const rightKneeRef = useRef<THREE.Group>(null);
   const rightArmRef = useRef<THREE.Group>(null);
+  const rightElbowRef = useRef<THREE.Group>(null);
+  const phoneRef = useRef<THREE.Mesh>(null);
+  const flashRef = useRef<THREE.PointLight>(null);
+  const bulbRef = useRef<THREE.MeshBasicMaterial>(null);
+  const seatRef = useRef<THREE.MeshStandardMaterial>(null);
+  const director = useTransitionDirector();
+  const { seed } = useGreeting();
+  const { capture } = useSnapshot();
+  const { addSelfie } = usePhotos();
+
+  // Hair spike tilts, fixed per seed so the hairstyle doesn't change between renders
+  const spikeRotations = useMemo(() => {
+    const rng = createRng(`${seed}:hair`);
+    return [...Array(8)].map((): [number, number, number] => [rng(), rng(), rng()]);
+  }, [seed]);
+
+  // State lives in refs: only the frame loop reads it, so changes never re-render
+  const machine = useRef({
+    state: (director.mode === TreeMode.FORMED ? 'standing' : 'sitting') as CharacterState,
+    elapsed: 0,
+    shutter: false, // The current selfie has been taken
+  });
+  const pose = useRef<Pose>(structuredClone(POSES[machine.current.state]));
+  const flash = useRef(0);
+
+  const setState = (state: CharacterState) => {
+    machine.current = { state, elapsed: 0, shutter: false };
+  };
+
+  // Any mode change ends what they were doing, a selfie included
+  useTransitionEvent('modeEnter', (next) => {
+    setState(next === TreeMode.CHAOS || next === TreeMode.GIFT ? 'sitting' : 'standing');
+  });
+  useTransitionEvent('transitionComplete', (settled) => {
+    if (settled === TreeMode.FORMED && machine.current.state !== 'selfie') setState('waving');
+  });
+
+  const onClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    const { state } = machine.current;
+    if (mode === TreeMode.FORMED && (state === 'standing' || state === 'waving')) setState('selfie');
+  };
+
+  // Shot from the phone back at the face, with the tree behind
+  const takeSelfie = () => {
+    if (!phoneRef.current || !headRef.current || !rightArmRef.current || machine.current.state !== 'selfie') return;
+    const target = headRef.current.getWorldPosition(new THREE.Vector3());
+    const position = phoneRef.current.getWorldPosition(new THREE.Vector3()).sub(target).multiplyScalar(SELFIE_REACH).add(target);
+    target.y += 0.3; // A little headroom for the tree
+
+    // The arm reaches between the lens and the face, so it is left out of the picture. Only its
+    // materials are hidden: the flash hangs off the phone and must still light the shot.
+    const armMaterials: THREE.Material[] = [];
+    rightArmRef.current.traverse((object) => {
+      if (object instanceof THREE.Mesh) armMaterials.push(...[object.material].flat());
+    });
+    armMaterials.forEach((material) => (material.visible = false));
+    // The frame is drawn before capture() first waits, so the arm can come back straight after
+    capture({ size: SELFIE_SIZE, transparent: false, view: { position, target, fov: SELFIE_FOV } })
+      .then(({ blob }) => addSelfie(blob))
+      .catch((e) => console.error('Failed to take the selfie:', e));
+    armMaterials.forEach((material) => (material.visible = true));
+  };
 
-  // Animation: Breathing & Head bob
   useFrame((state, delta) => {
-    if (!group.current || !headRef.current || !rightArmRef.current) return;
+    if (!group.current || !bodyRef.current || !headRef.current || !rightArmRef.current || !rightElbowRef.current) return;
     const t = state.clock.elapsedTime;
-    
-    // Gentle breathing (Scale Y slightly)
-    group.current.scale.y = 1 + Math.sin(t * 2) * 0.005;
-    
+
+    // Advance the machine
+    let current = machine.current;
+    current.elapsed += delta;
+    const timed = TIMED_STATES[current.state];
+    if (timed && current.elapsed >= timed.duration) {
+      setState(timed.next);
+      current = machine.current;
+    }
+    if (current.state === 'selfie' && !current.shutter && current.elapsed >= SELFIE_SHUTTER) {
+      current.shutter = true;
+      flash.current = 1;
+      // After this frame is drawn, so the flash is in the picture and the render loop isn't interrupted
+      queueMicrotask(takeSelfie);
+    }
+
+    // Ease every joint towards the pose
+    const target = POSES[current.state];
+    const ease = 1 - Math.exp(-delta * POSE_SPEED);
+    const p = pose.current;
+    p.lift += (target.lift - p.lift) * ease;
+    p.step += (target.step - p.step) * ease;
+    p.head += (target.head - p.head) * ease;
+    for (let i = 0; i < 2; i++) {
+      p.hips[i] += (target.hips[i] - p.hips[i]) * ease;
+      p.knees[i] += (target.knees[i] - p.knees[i]) * ease;
+    }
+    for (let i = 0; i < 3; i++) {
+      p.shoulder[i] += (target.shoulder[i] - p.shoulder[i]) * ease;
+      p.elbow[i] += (target.elbow[i] - p.elbow[i]) * ease;
+    }
+
+    bodyRef.current.position.set(0, p.lift, p.step);
+    leftHipRef.current?.rotation.set(p.hips[0], 0.1, -0.05);
+    rightHipRef.current?.rotation.set(p.hips[1], -0.1, 0.05);
+    leftKneeRef.current?.rotation.set(p.knees[0], 0, 0);
+    rightKneeRef.current?.rotation.set(p.knees[1], 0, 0);
+
+    // Arm sway (holding phone), or the wave itself
+    const waving = current.state === 'waving' ? 1 : 0;
+    rightArmRef.current.rotation.set(p.shoulder[0], p.shoulder[1], p.shoulder[2] + Math.sin(t * 1.5) * 0.05 * (1 - waving));
+    rightElbowRef.current.rotation.set(p.elbow[0], p.elbow[1], p.elbow[2] + Math.sin(t * WAVE_SPEED) * WAVE_SWING * waving);
+
     // Head bob
-    headRef.current.rotation.y = Math.sin(t * 0.5) * 0.1;
-    headRef.current.rotation.z = Math.sin(t * 1) * 0.05;
+    headRef.current.rotation.set(p.head, Math.sin(t * 0.5) * 0.1, Math.sin(t * 1) * 0.05);
+
+    // Flash: a burst of light from the phone that dies away quickly
+    flash.current *= Math.exp(-delta * FLASH_DECAY);
+    if (flashRef.current) flashRef.current.intensity = flash.current * FLASH_INTENSITY;
+    bulbRef.current?.color.setScalar(0.6 + flash.current * 8);
+    seatRef.current?.color.copy(themeColors.giftRibbon);
 
-    // Arm sway (holding phone)
-    rightArmRef.current.rotation.z = -0.2 + Math.sin(t * 1.5) * 0.05;
-    
     // Visibility/Scale transition for TEXT/POLAROID mode
     // We want the character to disappear in TEXT and POLAROID mode
-    const isVisible = mode === TreeMode.FORMED || mode === TreeMode.CHAOS;
-    const targetScale = isVisible ? 1.2 : 0;
-    
-    const currentScale = group.current.userData.scale || 1.2;
-    const nextScale = THREE.MathUtils.lerp(currentScale, targetScale, delta * 3);
-    group.current.userData.scale = nextScale;
-    
-    group.current.scale.setScalar(nextScale);
-    // Re-apply breathing to Y on top of the base scale? 
-    // Actually setScalar sets x,y,z. Breathing sets Y. 
-    // To mix, we set X/Z to nextScale, and Y to nextScale * breathing.
+    const visibility = director.getWeight(TreeMode.FORMED) + director.getWeight(TreeMode.CHAOS);
+    const nextScale = 1.2 * visibility;
+
+    // Gentle breathing on top of the base scale:
+    // we set X/Z to nextScale, and Y to nextScale * breathing.
     group.current.scale.set(nextScale, nextScale * (1 + Math.sin(t * 2) * 0.005), nextScale);
   });
 
@@ -52,184 +211,182 @@ export const Character: React.FC<CharacterProps> = ({ mode }) => {
   const shoeColorMain = "#1A202C"; // Black
   const shoeColorSole = "#FFFFFF";
 
+  // One leg: thigh from the hip, shin from the knee, shoe at the end
+  const leg = (side: -1 | 1, hipRef: React.RefObject<THREE.Group | null>, kneeRef: React.RefObject<THREE.Group | null>) => (
+    <group ref={hipRef} position={[side * 0.17, 0, 0.05]}>
+       {/* Thigh */}
+       <mesh position={[0, -0.25, 0]}>
+          <capsuleGeometry args={[0.13, 0.4, 4, 8]} />
+          <meshStandardMaterial color={jeansColor} roughness={0.6} />
+       </mesh>
+       <group ref={kneeRef} position={[0, -0.5, 0]}>
+          {/* Shin */}
+          <mesh position={[0, -0.25, 0]}>
+             <capsuleGeometry args={[0.12, 0.4, 4, 8]} />
+             <meshStandardMaterial color={jeansColor} roughness={0.6} />
+          </mesh>
+          {/* Shoe */}
+          <group position={[0, -0.55, 0.06]}>
+             <mesh position={[0, 0, 0]}>
+                 <boxGeometry args={[0.15, 0.1, 0.3]} />
+                 <meshStandardMaterial color={shoeColorSole} />
+             </mesh>
+             <mesh position={[0, 0.07, -0.05]}>
+                 <boxGeometry args={[0.14, 0.1, 0.2]} />
+                 <meshStandardMaterial color={shoeColorMain} />
+             </mesh>
+          </group>
+       </group>
+    </group>
+  );
+
+  // On the snow in front of the tree, outside the gift pile, turned towards the viewer
   return (
-    <group ref={group} position={[3.5, 0.4, 2.0]} rotation={[0, -0.8, 0]}>
-      
-      {/* --- HEAD GROUP --- */}
-      <group ref={headRef} position={[0, 1.4, 0]}>
-        {/* Face */}
-        <mesh position={[0, 0, 0]}>
-          <sphereGeometry args={[0.35, 32, 32]} />
-          <meshStandardMaterial color={skinColor} roughness={0.5} />
-        </mesh>
-
-        {/* Hair (Procedural Clumps) */}
-        <group position={[0, 0.05, 0]}>
-            {/* Main bulk */}
-            <mesh position={[0, 0.15, -0.1]}>
-                <sphereGeometry args={[0.36, 16, 16]} />
-                <meshStandardMaterial color={hairColor} roughness={0.6} />
-            </mesh>
-            {/* Bangs / Spikes */}
-            {[...Array(8)].map((_, i) => (
-                <mesh key={i} position={[
-                    Math.sin(i) * 0.3, 
-                    0.2 + Math.cos(i) * 0.1, 
-                    0.25
-                ]} rotation={[Math.random(), Math.random(), Math.random()]}>
-                    <capsuleGeometry args={[0.08, 0.2, 4, 8]} />
-                    <meshStandardMaterial color={hairColor} roughness={0.6} />
-                </mesh>
-            ))}
-        </group>
+    <group ref={group} position={[5.5, 0.55, 5.0]} rotation={[0, -0.3, 0]} onClick={onClick}>
 
-        {/* Eyes (Simple dots for stylized look) */}
-        <mesh position={[-0.12, 0.05, 0.3]} scale={[1, 1.2, 1]}>
-             <sphereGeometry args={[0.03, 8, 8]} />
-             <meshBasicMaterial color="#333" />
-        </mesh>
-        <mesh position={[0.12, 0.05, 0.3]} scale={[1, 1.2, 1]}>
-             <sphereGeometry args={[0.03, 8, 8]} />
-             <meshBasicMaterial color="#333" />
-        </mesh>
-        {/* Blush */}
-        <mesh position={[-0.18, -0.05, 0.28]}>
-             <circleGeometry args={[0.04, 16]} />
-             <meshBasicMaterial color="#FFB7C5" transparent opacity={0.5} depthWrite={false}/>
-        </mesh>
-        <mesh position={[0.18, -0.05, 0.28]}>
-             <circleGeometry args={[0.04, 16]} />
-             <meshBasicMaterial color="#FFB7C5" transparent opacity={0.5} depthWrite={false}/>
-        </mesh>
-      </group>
+      {/* --- SEAT (a gift in the theme's ribbon colour) --- */}
+      <mesh position={[0, -0.03, -0.05]}>
+          <boxGeometry args={[0.7, 0.5, 0.55]} />
+          <meshStandardMaterial ref={seatRef} roughness={0.3} metalness={0.4} />
+      </mesh>
 
-      {/* --- BODY GROUP --- */}
-      <group position={[0, 0.7, 0]}>
-        {/* Hoodie Inner */}
-        <mesh position={[0, 0, 0]}>
-            <cylinderGeometry args={[0.28, 0.32, 0.7, 16]} />
-            <meshStandardMaterial color={hoodieColor} roughness={0.8} />
-        </mesh>
-        {/* Jacket Outer (Open front) */}
-        <group>
-            <mesh position={[0, 0, -0.05]}>
-                <boxGeometry args={[0.65, 0.72, 0.4]} />
-                <meshStandardMaterial color={jacketColor} roughness={0.7} />
-            </mesh>
-            {/* Hood hanging back */}
-            <mesh position={[0, 0.35, -0.25]} rotation={[0.5, 0, 0]}>
-                <capsuleGeometry args={[0.15, 0.4, 4, 8]} />
-                <meshStandardMaterial color={hoodieColor} roughness={0.8} />
-            </mesh>
-        </group>
-      </group>
+      <group ref={bodyRef}>
 
-      {/* --- LEGS (Sitting Pose) --- */}
-      <group position={[0, 0.35, 0]}>
-          {/* Left Leg: Extended slightly forward */}
-          <group position={[-0.2, 0, 0.1]} rotation={[-1.4, 0.2, -0.1]}>
-             {/* Thigh */}
-             <mesh position={[0, 0.3, 0]}>
-                <capsuleGeometry args={[0.13, 0.5, 4, 8]} />
-                <meshStandardMaterial color={jeansColor} roughness={0.6} />
-             </mesh>
-             {/* Shin (Straightish) */}
-             <mesh position={[0, -0.25, 0.05]} rotation={[0.2, 0, 0]}>
-                <capsuleGeometry args={[0.12, 0.5, 4, 8]} />
-                <meshStandardMaterial color={jeansColor} roughness={0.6} />
-             </mesh>
-             {/* Shoe */}
-             <group position={[0, -0.6, 0.1]} rotation={[1.5, 0, 0]}>
-                <mesh position={[0, 0.05, 0]}>
-                    <boxGeometry args={[0.15, 0.1, 0.3]} />
-                    <meshStandardMaterial color={shoeColorSole} />
-                </mesh>
-                <mesh position={[0, 0.12, -0.05]}>
-                    <boxGeometry args={[0.14, 0.1, 0.2]} />
-                    <meshStandardMaterial color={shoeColorMain} />
-                </mesh>
-             </group>
-          </group>
+        {/* --- HEAD GROUP --- */}
+        <group ref={headRef} position={[0, 1.4, 0]}>
+          {/* Face */}
+          <mesh position={[0, 0, 0]}>
+            <sphereGeometry args={[0.35, 32, 32]} />
+            <meshStandardMaterial color={skinColor} roughness={0.5} />
+          </mesh>
 
-          {/* Right Leg: Bent Knee */}
-          <group position={[0.2, 0, 0.1]} rotation={[-1.0, -0.2, 0.1]}>
-             {/* Thigh */}
-             <mesh position={[0, 0.3, 0]}>
-                <capsuleGeometry args={[0.13, 0.5, 4, 8]} />
-                <meshStandardMaterial color={jeansColor} roughness={0.6} />
-             </mesh>
-             {/* Shin (Bent back) */}
-             <mesh position={[0, -0.2, -0.2]} rotation={[-1.5, 0, 0]}>
-                <capsuleGeometry args={[0.12, 0.5, 4, 8]} />
-                <meshStandardMaterial color={jeansColor} roughness={0.6} />
-             </mesh>
-             {/* Shoe */}
-             <group position={[0, -0.55, -0.2]} rotation={[2.5, 0, 0]}>
-                <mesh position={[0, 0.05, 0]}>
-                    <boxGeometry args={[0.15, 0.1, 0.3]} />
-                    <meshStandardMaterial color={shoeColorSole} />
-                </mesh>
-                <mesh position={[0, 0.12, -0.05]}>
-                    <boxGeometry args={[0.14, 0.1, 0.2]} />
-                    <meshStandardMaterial color={shoeColorMain} />
-                </mesh>
-             </group>
+          {/* Hair (Procedural Clumps) */}
+          <group position={[0, 0.05, 0]}>
+              {/* Main bulk */}
+              <mesh position={[0, 0.15, -0.1]}>
+                  <sphereGeometry args={[0.36, 16, 16]} />
+                  <meshStandardMaterial color={hairColor} roughness={0.6} />
+              </mesh>
+              {/* Bangs / Spikes */}
+              {spikeRotations.map((rotation, i) => (
+                  <mesh key={i} position={[
+                      Math.sin(i) * 0.3,
+                      0.2 + Math.cos(i) * 0.1,
+                      0.25
+                  ]} rotation={rotation}>
+                      <capsuleGeometry args={[0.08, 0.2, 4, 8]} />
+                      <meshStandardMaterial color={hairColor} roughness={0.6} />
+                  </mesh>
+              ))}
           </group>
-      </group>
 
-      {/* --- ARMS --- */}
-      <group position={[0, 1.0, 0]}>
-          {/* Left Arm: Resting back/down */}
-          <group position={[-0.35, -0.1, 0]} rotation={[0, 0, 0.2]}>
-              <mesh position={[0, -0.25, 0]}>
-                 <capsuleGeometry args={[0.1, 0.5, 4, 8]} />
-                 <meshStandardMaterial color={jacketColor} />
-              </mesh>
-              {/* Forearm */}
-              <mesh position={[0, -0.6, 0.1]} rotation={[-0.5, 0, 0]}>
-                 <capsuleGeometry args={[0.09, 0.4, 4, 8]} />
-                 <meshStandardMaterial color={jacketColor} />
+          {/* Eyes (Simple dots for stylized look) */}
+          <mesh position={[-0.12, 0.05, 0.3]} scale={[1, 1.2, 1]}>
+               <sphereGeometry args={[0.03, 8, 8]} />
+               <meshBasicMaterial color="#333" />
+          </mesh>
+          <mesh position={[0.12, 0.05, 0.3]} scale={[1, 1.2, 1]}>
+               <sphereGeometry args={[0.03, 8, 8]} />
+               <meshBasicMaterial color="#333" />
+          </mesh>
+          {/* Blush */}
+          <mesh position={[-0.18, -0.05, 0.28]}>
+               <circleGeometry args={[0.04, 16]} />
+               <meshBasicMaterial color="#FFB7C5" transparent opacity={0.5} depthWrite={false}/>
+          </mesh>
+          <mesh position={[0.18, -0.05, 0.28]}>
+               <circleGeometry args={[0.04, 16]} />
+               <meshBasicMaterial color="#FFB7C5" transparent opacity={0.5} depthWrite={false}/>
+          </mesh>
+        </group>
+
+        {/* --- BODY GROUP --- */}
+        <group position={[0, 0.7, 0]}>
+          {/* Hoodie Inner */}
+          <mesh position={[0, 0, 0]}>
+              <cylinderGeometry args={[0.28, 0.32, 0.7, 16]} />
+              <meshStandardMaterial color={hoodieColor} roughness={0.8} />
+          </mesh>
+          {/* Jacket Outer (Open front) */}
+          <group>
+              <mesh position={[0, 0, -0.05]}>
+                  <boxGeometry args={[0.65, 0.72, 0.4]} />
+                  <meshStandardMaterial color={jacketColor} roughness={0.7} />
               </mesh>
-               {/* Hand */}
-               <mesh position={[0, -0.85, 0.2]}>
-                 <sphereGeometry args={[0.08]} />
-                 <meshStandardMaterial color={skinColor} />
+              {/* Hood hanging back */}
+              <mesh position={[0, 0.35, -0.25]} rotation={[0.5, 0, 0]}>
+                  <capsuleGeometry args={[0.15, 0.4, 4, 8]} />
+                  <meshStandardMaterial color={hoodieColor} roughness={0.8} />
               </mesh>
           </group>
+        </group>
+
+        {/* --- LEGS (posed at the hips and knees) --- */}
+        <group position={[0, 0.35, 0]}>
+            {leg(-1, leftHipRef, leftKneeRef)}
+            {leg(1, rightHipRef, rightKneeRef)}
+        </group>
+
+        {/* --- ARMS --- */}
+        <group position={[0, 1.0, 0]}>
+            {/* Left Arm: Resting back/down */}
+            <group position={[-0.35, -0.1, 0]} rotation={[0, 0, 0.2]}>
+                <mesh position={[0, -0.25, 0]}>
+                   <capsuleGeometry args={[0.1, 0.5, 4, 8]} />
+                   <meshStandardMaterial color={jacketColor} />
+                </mesh>
+                {/* Forearm */}
+                <mesh position={[0, -0.6, 0.1]} rotation={[-0.5, 0, 0]}>
+                   <capsuleGeometry args={[0.09, 0.4, 4, 8]} />
+                   <meshStandardMaterial color={jacketColor} />
+                </mesh>
+                 {/* Hand */}
+                 <mesh position={[0, -0.85, 0.2]}>
+                   <sphereGeometry args={[0.08]} />
+                   <meshStandardMaterial color={skinColor} />
+                </mesh>
+            </group>
+
+            {/* Right Arm: Holding Phone (posed by the state machine) */}
+            <group ref={rightArmRef} position={[0.35, -0.1, 0]}>
+                <mesh position={[0, -0.2, 0.1]} rotation={[-0.5, 0, 0]}>
+                   <capsuleGeometry args={[0.1, 0.45, 4, 8]} />
+                   <meshStandardMaterial color={jacketColor} />
+                </mesh>
+                {/* Forearm */}
+                <group ref={rightElbowRef} position={[0, -0.45, 0.25]}>
+                    <mesh position={[0, 0.2, 0]}>
+                       <capsuleGeometry args={[0.09, 0.4, 4, 8]} />
+                       <meshStandardMaterial color={jacketColor} />
+                    </mesh>
+                    {/* Hand */}
+                    <mesh position={[0, 0.45, 0]}>
+                       <sphereGeometry args={[0.08]} />
+                       <meshStandardMaterial color={skinColor} />
+                    </mesh>
+                    {/* PHONE (Pink Case) with its flash */}
+                    <mesh ref={phoneRef} position={[0.02, 0.5, 0.05]} rotation={[0.2, 0, 0.2]}>
+                       <boxGeometry args={[0.15, 0.25, 0.02]} />
+                       <meshStandardMaterial color="#FFB7C5" />
+                       <mesh position={[0.04, 0.08, -0.015]}>
+                          <sphereGeometry args={[0.015, 8, 8]} />
+                          <meshBasicMaterial ref={bulbRef} toneMapped={false} />
+                       </mesh>
+                       <pointLight ref={flashRef} intensity={0} distance={6} />
+                    </mesh>
+                    {/* Peace Sign Fingers (Abstract) */}
+                    <mesh position={[-0.02, 0.55, -0.02]} rotation={[0, 0, 0.2]}>
+                       <capsuleGeometry args={[0.02, 0.1]} />
+                       <meshStandardMaterial color={skinColor} />
+                    </mesh>
+                    <mesh position={[0.02, 0.55, -0.02]} rotation={[0, 0, -0.2]}>
+                       <capsuleGeometry args={[0.02, 0.1]} />
+                       <meshStandardMaterial color={skinColor} />
+                    </mesh>
+                </group>
+            </group>
+        </group>
 
-          {/* Right Arm: Holding Phone (Selfie/Peace mode) */}
-          <group ref={rightArmRef} position={[0.35, -0.1, 0]} rotation={[0, 0, -0.2]}>
-              <mesh position={[0, -0.2, 0.1]} rotation={[-0.5, 0, 0]}>
-                 <capsuleGeometry args={[0.1, 0.45, 4, 8]} />
-                 <meshStandardMaterial color={jacketColor} />
-              </mesh>
-              {/* Forearm (Up) */}
-              <group position={[0, -0.45, 0.25]} rotation={[-2.5, 0.5, 0]}>
-                  <mesh position={[0, 0.2, 0]}>
-                     <capsuleGeometry args={[0.09, 0.4, 4, 8]} />
-                     <meshStandardMaterial color={jacketColor} />
-                  </mesh>
-                  {/* Hand */}
-                  <mesh position={[0, 0.45, 0]}>
-                     <sphereGeometry args={[0.08]} />
-                     <meshStandardMaterial color={skinColor} />
-                  </mesh>
-                  {/* PHONE (Pink Case) */}
-                  <mesh position={[0.02, 0.5, 0.05]} rotation={[0.2, 0, 0.2]}>
-                     <boxGeometry args={[0.15, 0.25, 0.02]} />
-                     <meshStandardMaterial color="#FFB7C5" />
-                  </mesh>
-                  {/* Peace Sign Fingers (Abstract) */}
-                  <mesh position={[-0.02, 0.55, -0.02]} rotation={[0, 0, 0.2]}>
-                     <capsuleGeometry args={[0.02, 0.1]} />
-                     <meshStandardMaterial color={skinColor} />
-                  </mesh>
-                  <mesh position={[0.02, 0.55, -0.02]} rotation={[0, 0, -0.2]}>
-                     <capsuleGeometry args={[0.02, 0.1]} />
-                     <meshStandardMaterial color={skinColor} />
-                  </mesh>
-              </group>
-          </group>
       </group>
 
     </group>
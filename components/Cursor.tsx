@@ -120,8 +120,8 @@ const Cursor: React.FC = () => {
           style={{
             width: '12px',
             height: '12px',
-            backgroundColor: '#87CEEB', // SkyBlue glow
-            boxShadow: '0 0 8px #87CEEB',
+            backgroundColor: 'var(--theme-cursor)', // SkyBlue glow in the default theme
+            boxShadow: '0 0 8px var(--theme-cursor)',
           }}
         />
       ))}
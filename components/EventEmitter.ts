@@ -0,0 +1,21 @@
+// Minimal typed emitter shared by the scene controllers (transitions, show playback)
+// Events are described as a map of event name -> listener arguments, e.g. `{ step: [step: ShowStep, index: number] }`.
+
+export type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+export class EventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns an unsubscribe function, convenient as a useEffect cleanup
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    const set = (this.listeners[event] ??= new Set());
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+    this.listeners[event]?.forEach((listener) => listener(...args));
+  }
+}
@@ -1,75 +1,110 @@
 
-import React, { Suspense, useRef } from 'react';
+import React, { Suspense, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Environment, OrbitControls, Stars } from '@react-three/drei';
-import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import * as THREE from 'three';
+import { Environment, Stars } from '@react-three/drei';
+import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import Foliage from './Foliage';
 import { OrnamentsSystem } from './Ornaments';
 import TopStar from './TopStar';
 import SnowSystem from './SnowSystem';
 import TextRibbon from './TextRibbon';
-import PolaroidSystem from './PolaroidSystem';
-import { TreeMode, COLORS } from '../types';
+import PolaroidSystem, { createPolaroidFocus } from './PolaroidSystem';
+import { Character } from './Character';
+import { TransitionDriver } from './TransitionDirector';
+import { CameraRig } from './CameraDirector';
+import { TreeMode } from '../types';
+import { AdaptiveQuality, useQuality } from './QualityManager';
+import { SnapshotRenderer } from './Snapshot';
+import { useVideoExport, VideoExportRenderer } from './VideoExport';
+import { themeColors, themeLevels, ThemeDriver } from './ThemeContext';
+import { audioLevels, AudioDriver } from './AudioAnalysis';
 
 interface ExperienceProps {
   mode: TreeMode;
+  cameraPreset?: string; // Shot named by the show timeline; overrides the mode's own shot while active
+  textPage?: number;
+  openedGift?: number;
+  onOpenGift?: (index?: number) => void;
+  focusedPhoto?: number; // Polaroid shown in the lightbox; the camera flies in front of it
+  onFocusPhoto?: (index: number) => void;
+  mosaicUrl?: string;
 }
 
-const Experience: React.FC<ExperienceProps> = ({ mode }) => {
-  const controlsRef = useRef<any>(null);
+const Experience: React.FC<ExperienceProps> = ({
+  mode,
+  cameraPreset,
+  textPage,
+  openedGift,
+  onOpenGift,
+  focusedPhoto,
+  onFocusPhoto,
+  mosaicUrl,
+}) => {
+  const { profile } = useQuality();
+  const { recording } = useVideoExport();
 
-  useFrame((state, delta) => {
-    // Smoothly transition camera to frontal position in CHAOS mode
-    if (mode === TreeMode.CHAOS) {
-      const targetPos = new THREE.Vector3(0, 8, 28);
-      const targetLook = new THREE.Vector3(0, 2, 0);
-      
-      state.camera.position.lerp(targetPos, delta * 1.5);
-      if (controlsRef.current) {
-          controlsRef.current.target.lerp(targetLook, delta * 1.5);
-          controlsRef.current.update();
-      }
+  // Lightbox: the focused frame reports its pose here for the camera rig
+  const focus = useMemo(createPolaroidFocus, []);
+
+  // Pictures are rendered through the same effects as the screen
+  const composerRef = useRef<React.ComponentRef<typeof EffectComposer>>(null);
+
+  // Lights and bloom follow the theme as it blends; bloom also swells with the music
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const keyRef = useRef<THREE.PointLight>(null);
+  const spotRef = useRef<THREE.SpotLight>(null);
+  const bloomRef = useRef<React.ComponentRef<typeof Bloom>>(null);
+  useFrame(() => {
+    ambientRef.current?.color.copy(themeColors.ambient);
+    keyRef.current?.color.copy(themeColors.key);
+    spotRef.current?.color.copy(themeColors.spot);
+    if (bloomRef.current) {
+      bloomRef.current.intensity = themeLevels.bloomIntensity * (1 + audioLevels.energy * 0.6 + audioLevels.beat * 0.4);
+      bloomRef.current.luminanceMaterial.threshold = themeLevels.bloomThreshold;
     }
   });
 
   return (
     <>
-      <color attach="background" args={[COLORS.sakuraPink]} />
-      <fog attach="fog" args={[COLORS.sakuraPink, 15, 50]} />
+      <TransitionDriver />
+      <ThemeDriver />
+      <AudioDriver />
+      {/* Recording runs slower than real time on purpose; don't let that lower the quality */}
+      {!recording && <AdaptiveQuality />}
+      <SnapshotRenderer composer={composerRef} />
+      <VideoExportRenderer />
+      {/* Kept in step with the theme by the driver */}
+      <primitive attach="background" object={themeColors.background} />
+      <fog attach="fog" args={[themeColors.fog, 15, 50]} />
 
-      <OrbitControls 
-        ref={controlsRef}
-        enablePan={false} 
-        minPolarAngle={Math.PI / 3} 
-        maxPolarAngle={Math.PI / 1.8}
-        minDistance={10}
-        maxDistance={40}
-        target={[0, 2, 0]} 
-      />
+      <CameraRig mode={mode} shot={cameraPreset} focusedPhoto={focusedPhoto} focus={focus} />
 
-      <ambientLight intensity={0.5} color={COLORS.skyBlue} />
-      <pointLight position={[10, 10, 10]} intensity={1} color={COLORS.white} />
-      <spotLight position={[0, 20, 0]} intensity={2} angle={0.5} penumbra={1} color={COLORS.hotPink} />
+      <ambientLight ref={ambientRef} intensity={0.5} />
+      <pointLight ref={keyRef} position={[10, 10, 10]} intensity={1} />
+      <spotLight ref={spotRef} position={[0, 20, 0]} intensity={2} angle={0.5} penumbra={1} />
       
       <Environment preset="lobby" blur={0.8} />
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+      <Stars radius={100} depth={50} count={profile.starCount} factor={4} saturation={0} fade speed={1} />
 
       <group position={[0, -5, 0]}>
         <Suspense fallback={null}>
-            <Foliage mode={mode} />
-            <OrnamentsSystem mode={mode} />
+            <Foliage mode={mode} count={profile.foliageCount} textPage={textPage} mosaicUrl={mosaicUrl} />
+            <OrnamentsSystem mode={mode} openedGift={openedGift} onOpenGift={onOpenGift} />
             <TopStar mode={mode} />
             <SnowSystem mode={mode} />
             <TextRibbon mode={mode} />
-            <PolaroidSystem mode={mode} />
+            <PolaroidSystem focusedIndex={focusedPhoto} onFocus={onFocusPhoto} focus={focus} />
+            <Character mode={mode} />
         </Suspense>
       </group>
 
-      <EffectComposer disableNormalPass>
-        <Bloom luminanceThreshold={0.8} mipmapBlur intensity={1.2} radius={0.4} color={COLORS.hotPink} />
-        <Vignette eskil={false} offset={0.1} darkness={0.5} />
-      </EffectComposer>
+      {profile.postProcessing && (
+        <EffectComposer ref={composerRef}>
+          <Bloom ref={bloomRef} luminanceThreshold={themeLevels.bloomThreshold} mipmapBlur={profile.mipmapBlur} intensity={themeLevels.bloomIntensity} radius={0.4} />
+          <Vignette eskil={false} offset={0.1} darkness={0.5} />
+        </EffectComposer>
+      )}
     </>
   );
 };
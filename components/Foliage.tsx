@@ -1,15 +1,29 @@
 
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeMode, COLORS } from '../types';
-import { getConePoint, getRandomSpherePoint, getRandomTextPoint } from './MathUtils';
+import { TreeMode } from '../types';
+import { getConePoint, getRandomSpherePoint } from './MathUtils';
+import { useSampledText } from './TextSampler';
+import { useSampledImage } from './ImageSampler';
+import { createRng } from './Random';
+import { useGreeting } from './GreetingContext';
+import { getLayoutWeights, useTransitionDirector } from './TransitionDirector';
+import { pointScaleUniform } from './PointScale';
+import { themeColors } from './ThemeContext';
+import { audioUniforms } from './AudioAnalysis';
+import { useLyricParticleText } from './LyricsContext';
+import { clearModeBounds, getLayoutBounds, setModeBounds } from './CameraFit';
 
 interface FoliageProps {
   mode: TreeMode;
+  count?: number;
+  textPage?: number; // Index into the greeting's text pages; the headline when omitted
+  mosaicUrl?: string; // Photo the particles recreate in MOSAIC mode
 }
 
-const COUNT = 65000;
+// The morph runs in the vertex shader, so this can go well beyond what a CPU loop could move
+const DEFAULT_COUNT = 65000;
 const TREE_HEIGHT = 15;
 const TREE_BASE = 5.5;
 
@@ -18,33 +32,73 @@ const TREE_BASE = 5.5;
 const vertexShader = `
   uniform float uTime;
   uniform float uScale;
+  uniform float uPointScale; // Raised while a high-resolution picture is captured
   uniform float uIsTextMode; // 0.0 -> 1.0
+
+  // Morph weights per target shape (normalised below), eased by the transition director
+  uniform float uChaos;
+  uniform float uFormed;
+  uniform float uText;
+  uniform float uPhotos; // Backdrop behind the photo carousel
+  uniform float uMosaic; // Particles recreate a photo
+  // 0.0 -> 1.0 while gliding from an old text layout to a re-sampled one
+  uniform float uTextSwap;
+  uniform vec3 uTreeA; // Needle colours from the theme
+  uniform vec3 uTreeB;
+  uniform float uMosaicReady; // 1.0 once the photo's colours have arrived
+  uniform float uAudioBass; // Music levels, 0 while nothing plays
+  uniform float uAudioBeat;
   
-  attribute vec3 color;
+  attribute float aTreeMix; // Where this needle sits between the two tree colours
+  attribute vec3 aChaos;
+  attribute vec3 aTextFrom;
+  attribute vec3 aText;
+  attribute float aRandom;
+  attribute vec3 aMosaic;
+  attribute vec3 aMosaicColor;
   
   varying vec3 vColor;
   varying vec3 vWorldPos;
   varying float vRandom;
-
-  // Simple pseudo-random
-  float random(vec2 st) {
-      return fract(sin(dot(st.xy, vec2(12.9898,78.233))) * 43758.5453123);
-  }
+  varying float vAlpha;
 
   void main() {
-    vWorldPos = position; 
-    vRandom = random(vec2(float(gl_VertexID), 1.0));
+    vRandom = aRandom;
+
+    // Blend the target shapes (position holds the tree shape).
+    // The photo backdrop is the scattered cloud, spread wider and pushed back behind the carousel.
+    vec3 textPos = mix(aTextFrom, aText, uTextSwap);
+    vec3 backdropPos = aChaos * vec3(2.2, 1.2, 0.6) + vec3(0.0, 1.0, -24.0);
+    float total = max(uChaos + uFormed + uText + uPhotos + uMosaic, 0.0001);
+    vec3 pos = (aChaos * uChaos + position * uFormed + textPos * uText + backdropPos * uPhotos + aMosaic * uMosaic) / total;
 
-    vColor = color;
+    // Tree colours turn into the photo's colours on the way into the mosaic
+    float mosaicShare = uMosaic / total;
+    vec3 treeColor = mix(uTreeA, uTreeB, aTreeMix);
+    vColor = mix(treeColor, aMosaicColor, mosaicShare * uMosaicReady);
 
-    vec3 pos = position;
+    // Particles drift off the straight path while in flight between shapes
+    float inFlight = 1.0 - max(max(max(uChaos, uFormed), max(uText, uPhotos)), uMosaic) / total;
+    float phase = aRandom * 6.2831;
+    pos += vec3(
+      sin(uTime * 0.9 + phase),
+      cos(uTime * 0.7 + phase * 2.0),
+      sin(uTime * 0.5 + phase * 3.0)
+    ) * inFlight * 1.5;
+
+    vWorldPos = pos;
+    vAlpha = 1.0 - 0.5 * uPhotos / total; // Softer so the photos stand out
+    vAlpha *= 1.0 - 0.45 * mosaicShare; // Dense overlapping points would wash the photo out
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
     
     // Scale particles: 
     // Text Mode: Larger (1.1x)
     float sizeModeMult = mix(1.0, 1.1, uIsTextMode);
+
+    // Swell with the bass and kick on the beat; kept small in the mosaic so the photo stays legible
+    float audioMult = 1.0 + (0.25 * uAudioBass + 0.2 * uAudioBeat) * (1.0 - 0.8 * mosaicShare);
     
-    gl_PointSize = uScale * sizeModeMult * (300.0 / -mvPosition.z);
+    gl_PointSize = uScale * uPointScale * sizeModeMult * audioMult * (300.0 / -mvPosition.z);
     
     gl_Position = projectionMatrix * mvPosition;
   }
@@ -53,10 +107,14 @@ const vertexShader = `
 const fragmentShader = `
   uniform float uTime;
   uniform float uIsTextMode;
+  uniform vec3 uTextBottom;
+  uniform vec3 uTextTop;
+  uniform vec3 uTextScan;
   
   varying vec3 vColor;
   varying vec3 vWorldPos;
   varying float vRandom;
+  varying float vAlpha;
 
   void main() {
     // 1. CIRCLE SHAPE (Soft)
@@ -70,23 +128,19 @@ const fragmentShader = `
 
     vec3 finalColor = vColor;
 
-    // 2. TEXT MODE EFFECTS (Cyberpunk Blue)
+    // 2. TEXT MODE EFFECTS (Cyberpunk gradient in the theme's colours)
     if (uIsTextMode > 0.01) {
        // Map vertical position to 0..1 range for gradient
        float gradientT = smoothstep(5.0, 13.0, vWorldPos.y);
 
-       // Vibrant Blue Gradient
-       vec3 colBottom = vec3(0.1, 0.2, 0.9);
-       vec3 colTop = vec3(0.2, 0.9, 1.0);
-       
-       vec3 cyberBody = mix(colBottom, colTop, gradientT);
+       vec3 cyberBody = mix(uTextBottom, uTextTop, gradientT);
        
        // Scanline
        float scanY = fract(uTime * 0.3); 
        float normY = (vWorldPos.y - 4.0) / 14.0; 
        float scan = smoothstep(0.15, 0.0, abs(normY - scanY));
        
-       cyberBody += scan * vec3(0.5, 0.9, 1.0) * 0.5;
+       cyberBody += scan * uTextScan * 0.5;
        
        finalColor = mix(finalColor, cyberBody, uIsTextMode);
     }
@@ -96,105 +150,149 @@ const fragmentShader = `
        strength = mix(strength, smoothstep(0.5, 0.3, dist), uIsTextMode);
     }
 
-    gl_FragColor = vec4(finalColor, strength);
+    gl_FragColor = vec4(finalColor, strength * vAlpha);
   }
 `;
 
-const Foliage: React.FC<FoliageProps> = ({ mode }) => {
+const Foliage: React.FC<FoliageProps> = ({ mode, count = DEFAULT_COUNT, textPage, mosaicUrl }) => {
   const pointsRef = useRef<THREE.Points>(null);
   const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const { headline, textPages, seed } = useGreeting();
+  // A sung lyric line takes over the text while the visitor has lyrics shown in the tree
+  const lyricLines = useLyricParticleText(mode);
+  const shownLines = lyricLines ?? ((textPage !== undefined && textPages[textPage]) || headline);
+
+  // The glyphs are only re-sampled in TEXT mode; elsewhere the last layout is kept until it is shown again
+  const [lines, setLines] = useState(shownLines);
+  useEffect(() => {
+    if (mode === TreeMode.TEXT) setLines(shownLines);
+  }, [mode, shownLines]);
+  const director = useTransitionDirector();
   
-  // Transition state for shader mixing
-  const textTransitionRef = useRef(0);
-
-  // Precompute positions and initial colors
-  const { positions, chaosPositions, textPositions, initialColors } = useMemo(() => {
-    const pos = new Float32Array(COUNT * 3);
-    const chaosPos = new Float32Array(COUNT * 3);
-    const textPos = new Float32Array(COUNT * 3);
-    const initCols = new Float32Array(COUNT * 3);
+  // Glide state for a re-sampled text layout
+  const textSwapRef = useRef(1);
+
+  // Text Shape: one evenly spread glyph point per particle.
+  // Re-sampled if the font arrives late or the page changes; the shader then glides particles onto the new glyphs.
+  const textPositions = useSampledText({ lines, count, seed: `${seed}:foliage-text` });
+
+  // Photo Shape: sampled asynchronously; until it arrives the mosaic targets are the tree itself
+  const mosaic = useSampledImage(mosaicUrl ? { url: mosaicUrl, count, seed: `${seed}:foliage-mosaic` } : null);
+
+  // Precompute target shapes and colour blends. Uploaded once, the morph itself runs on the GPU.
+  // Colours are mixed in the shader, so a theme switch never touches these buffers.
+  const { positions, chaosPositions, randoms, treeMix } = useMemo(() => {
+    const pos = new Float32Array(count * 3);
+    const chaosPos = new Float32Array(count * 3);
+    const rand = new Float32Array(count);
+    const mix = new Float32Array(count);
     
-    const cBlue = new THREE.Color(COLORS.foliageBlue);
-    const cPink = new THREE.Color(COLORS.foliagePink);
+    const rng = createRng(`${seed}:foliage`);
 
-    for (let i = 0; i < COUNT; i++) {
+    for (let i = 0; i < count; i++) {
       // Tree Shape
-      const [tx, ty, tz] = getConePoint(TREE_HEIGHT, TREE_BASE, i, COUNT, 1.0);
+      const [tx, ty, tz] = getConePoint(TREE_HEIGHT, TREE_BASE, i, count, 1.0, rng);
       pos[i * 3] = tx;
       pos[i * 3 + 1] = ty;
       pos[i * 3 + 2] = tz;
 
       // Chaos Shape
-      const [cx, cy, cz] = getRandomSpherePoint(20);
+      const [cx, cy, cz] = getRandomSpherePoint(20, rng);
       chaosPos[i * 3] = cx;
       chaosPos[i * 3 + 1] = cy;
       chaosPos[i * 3 + 2] = cz;
-      
-      // Text Shape
-      const [texX, texY, texZ] = getRandomTextPoint();
-      textPos[i * 3] = texX;
-      textPos[i * 3 + 1] = texY;
-      textPos[i * 3 + 2] = texZ;
-
-      // Initial Color Mixing (Tree)
-      const mix1 = cBlue.clone().lerp(cPink, Math.random());
-      initCols[i * 3] = mix1.r;
-      initCols[i * 3 + 1] = mix1.g;
-      initCols[i * 3 + 2] = mix1.b;
+
+      rand[i] = rng();
+
+      // Color Mixing (Tree)
+      mix[i] = rng();
     }
     
     return { 
         positions: pos, 
         chaosPositions: chaosPos, 
-        textPositions: textPos, 
-        initialColors: initCols
+        randoms: rand,
+        treeMix: mix
     };
-  }, []);
+  }, [count, seed]);
+
+  // Text targets live in two attributes so a re-sample can be blended in instead of snapping
+  const textAttributes = useMemo(() => ({
+    from: new THREE.BufferAttribute(textPositions.slice(), 3),
+    to: new THREE.BufferAttribute(textPositions.slice(), 3),
+  }), [count]);
 
-  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  useEffect(() => {
+    const { from, to } = textAttributes;
+    const fromArray = from.array as Float32Array;
+    const toArray = to.array as Float32Array;
+    if (toArray.length !== textPositions.length) return;
+
+    // Freeze the currently displayed layout as the new starting point
+    const swap = textSwapRef.current;
+    for (let i = 0; i < fromArray.length; i++) {
+      fromArray[i] += (toArray[i] - fromArray[i]) * swap;
+    }
+    toArray.set(textPositions);
+    from.needsUpdate = true;
+    to.needsUpdate = true;
+    textSwapRef.current = 0;
+  }, [textPositions, textAttributes]);
+
+  const mosaicAttributes = useMemo(() => ({
+    position: new THREE.BufferAttribute(positions.slice(), 3),
+    color: new THREE.BufferAttribute(new Float32Array(count * 3), 3),
+  }), [positions, count]);
+
+  // Without a photo the particles keep their tree colours in the mosaic
+  const mosaicReadyRef = useRef(false);
+  useEffect(() => {
+    const usable = mosaic && mosaic.positions.length === count * 3;
+    mosaicAttributes.position.copyArray(usable ? mosaic.positions : positions);
+    if (usable) mosaicAttributes.color.copyArray(mosaic.colors);
+    mosaicReadyRef.current = !!usable;
+    mosaicAttributes.position.needsUpdate = true;
+    mosaicAttributes.color.needsUpdate = true;
+  }, [mosaic, mosaicAttributes]);
+
+  // Tell the camera where the particles will be, so its shots fit the tree, text and photo.
+  // Each mode reports only when its own layout changes.
+  useEffect(() => {
+    const space = pointsRef.current?.parent;
+    if (space) setModeBounds(TreeMode.FORMED, 'foliage', getLayoutBounds(positions, space, { spin: true })); // The tree turns
+  }, [positions]);
+  useEffect(() => {
+    const space = pointsRef.current?.parent;
+    if (space) setModeBounds(TreeMode.TEXT, 'foliage', getLayoutBounds(textPositions, space));
+  }, [textPositions]);
+  useEffect(() => {
+    const space = pointsRef.current?.parent;
+    if (space) setModeBounds(TreeMode.MOSAIC, 'foliage', getLayoutBounds(mosaicAttributes.position.array, space));
+  }, [mosaic, mosaicAttributes]);
+  useEffect(() => () => clearModeBounds('foliage'), []);
 
   useFrame((state, delta) => {
-    if (!geometryRef.current || !materialRef.current) return;
+    if (!materialRef.current) return;
 
-    const currentPositions = geometryRef.current.attributes.position.array as Float32Array;
+    const uniforms = materialRef.current.uniforms;
     const time = state.clock.elapsedTime;
     
     // Update Uniforms
-    materialRef.current.uniforms.uTime.value = time;
-    
-    // Smooth transition for Text Mode uniform
-    const targetText = mode === TreeMode.TEXT ? 1.0 : 0.0;
-    textTransitionRef.current = THREE.MathUtils.lerp(textTransitionRef.current, targetText, delta * 2.0);
-    materialRef.current.uniforms.uIsTextMode.value = textTransitionRef.current;
+    uniforms.uTime.value = time;
     
-    // Movement Lerp
-    const lerpFactor = THREE.MathUtils.clamp(delta * 1.5, 0, 1);
+    // Morph weights come straight from the director: only three numbers per frame
+    const weights = getLayoutWeights(director);
+    uniforms.uChaos.value = weights.chaos;
+    uniforms.uFormed.value = weights.formed;
+    uniforms.uText.value = weights.text;
+    uniforms.uPhotos.value = weights.photos;
+    uniforms.uMosaic.value = weights.mosaic;
+    uniforms.uIsTextMode.value = weights.text;
+    uniforms.uMosaicReady.value = mosaicReadyRef.current ? 1 : 0;
 
-    for (let i = 0; i < COUNT; i++) {
-      const idx = i * 3;
-      let targetX = 0, targetY = 0, targetZ = 0;
-
-      if (mode === TreeMode.FORMED) {
-          targetX = positions[idx];
-          targetY = positions[idx+1];
-          targetZ = positions[idx+2];
-      } else if (mode === TreeMode.TEXT) {
-          targetX = textPositions[idx];
-          targetY = textPositions[idx+1];
-          targetZ = textPositions[idx+2];
-      } else {
-          // Chaos
-          targetX = chaosPositions[idx];
-          targetY = chaosPositions[idx+1];
-          targetZ = chaosPositions[idx+2];
-      }
-
-      currentPositions[idx] = THREE.MathUtils.lerp(currentPositions[idx], targetX, lerpFactor);
-      currentPositions[idx + 1] = THREE.MathUtils.lerp(currentPositions[idx + 1], targetY, lerpFactor);
-      currentPositions[idx + 2] = THREE.MathUtils.lerp(currentPositions[idx + 2], targetZ, lerpFactor);
-    }
-    
-    geometryRef.current.attributes.position.needsUpdate = true;
+    const lerpFactor = THREE.MathUtils.clamp(delta * 1.5, 0, 1);
+    textSwapRef.current = THREE.MathUtils.lerp(textSwapRef.current, 1, lerpFactor);
+    uniforms.uTextSwap.value = textSwapRef.current;
     
     // Rotation logic
     if(pointsRef.current) {
@@ -208,21 +306,39 @@ const Foliage: React.FC<FoliageProps> = ({ mode }) => {
     }
   });
 
+  // Positions are computed in the vertex shader, so bounds on the CPU side are meaningless
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry ref={geometryRef}>
+    <points ref={pointsRef} frustumCulled={false}>
+      {/* Keyed by count: a tier change mounts a fresh geometry and R3F disposes the old one and its buffers */}
+      <bufferGeometry key={count}>
         <bufferAttribute
           attach="attributes-position"
-          count={COUNT}
-          array={chaosPositions.slice()} 
+          count={count}
+          array={positions} 
           itemSize={3}
         />
         <bufferAttribute
-          attach="attributes-color"
-          count={COUNT}
-          array={initialColors} 
+          attach="attributes-aChaos"
+          count={count}
+          array={chaosPositions} 
           itemSize={3}
         />
+        <primitive attach="attributes-aTextFrom" object={textAttributes.from} />
+        <primitive attach="attributes-aText" object={textAttributes.to} />
+        <primitive attach="attributes-aMosaic" object={mosaicAttributes.position} />
+        <primitive attach="attributes-aMosaicColor" object={mosaicAttributes.color} />
+        <bufferAttribute
+          attach="attributes-aRandom"
+          count={count}
+          array={randoms} 
+          itemSize={1}
+        />
+        <bufferAttribute
+          attach="attributes-aTreeMix"
+          count={count}
+          array={treeMix} 
+          itemSize={1}
+        />
       </bufferGeometry>
       <shaderMaterial
         ref={materialRef}
@@ -230,8 +346,23 @@ const Foliage: React.FC<FoliageProps> = ({ mode }) => {
         fragmentShader={fragmentShader}
         uniforms={{
             uTime: { value: 0 },
-            uScale: { value: 0.15 }, // Base particle size
-            uIsTextMode: { value: 0 }
+            uScale: { value: 0.15 * Math.sqrt(DEFAULT_COUNT / count) }, // Base particle size, grown when there are fewer particles
+            uPointScale: pointScaleUniform,
+            uIsTextMode: { value: 0 },
+            uChaos: { value: 1 },
+            uFormed: { value: 0 },
+            uText: { value: 0 },
+            uPhotos: { value: 0 },
+            uMosaic: { value: 0 },
+            uTextSwap: { value: 1 },
+            uMosaicReady: { value: 0 },
+            uTreeA: { value: themeColors.treeA },
+            uTreeB: { value: themeColors.treeB },
+            uTextBottom: { value: themeColors.textBottom },
+            uTextTop: { value: themeColors.textTop },
+            uTextScan: { value: themeColors.textScan },
+            uAudioBass: audioUniforms.uAudioBass,
+            uAudioBeat: audioUniforms.uAudioBeat
         }}
         transparent
         depthWrite={false}
@@ -0,0 +1,37 @@
+// --- FONT LOADING ---
+// Canvas text silently falls back to another face while a webfont is still loading,
+// so anything rasterised from text has to check the document.fonts API first.
+
+export interface FontFaceRequest {
+  family: string;
+  weight: number;
+}
+
+const toFontString = ({ family, weight }: FontFaceRequest) => `${weight} 64px "${family}"`;
+
+const hasFontApi = () => typeof document !== 'undefined' && 'fonts' in document;
+
+export const areFontsReady = (faces: FontFaceRequest[]) => {
+  if (!hasFontApi()) return true;
+  return faces.every((face) => document.fonts.check(toFontString(face)));
+};
+
+const pending = new Map<string, Promise<boolean>>();
+
+// Resolves true once every face is usable, false if one is unknown or times out
+export const loadFonts = (faces: FontFaceRequest[], timeoutMs = 8000): Promise<boolean> => {
+  if (!hasFontApi() || areFontsReady(faces)) return Promise.resolve(true);
+
+  const key = faces.map(toFontString).join('|');
+  const existing = pending.get(key);
+  if (existing) return existing;
+
+  const load = Promise.all(faces.map((face) => document.fonts.load(toFontString(face))))
+    .then((results) => results.every((matched) => matched.length > 0))
+    .catch(() => false);
+  const timeout = new Promise<boolean>((resolve) => setTimeout(() => resolve(false), timeoutMs));
+
+  const request = Promise.race([load, timeout]).finally(() => pending.delete(key));
+  pending.set(key, request);
+  return request;
+};
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+
+interface GiftMessageCardProps {
+  message?: string; // Message of the open gift; undefined hides the card
+  onClose: () => void;
+}
+
+// The note inside an opened gift
+const GiftMessageCard: React.FC<GiftMessageCardProps> = ({ message, onClose }) => {
+  // Keep the last message on screen while the card fades out
+  const [shown, setShown] = useState(message);
+
+  useEffect(() => {
+    if (message) setShown(message);
+  }, [message]);
+
+  useEffect(() => {
+    if (!message) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [message, onClose]);
+
+  return (
+    <div
+      className={`fixed inset-x-0 bottom-24 flex justify-center z-[60] transition-all duration-500 ${message ? 'opacity-100 translate-y-0 pointer-events-auto' : 'opacity-0 translate-y-6 pointer-events-none'}`}
+    >
+      <div role="dialog" aria-label="Gift message" className="relative max-w-sm mx-4 bg-white/80 backdrop-blur-md border border-white rounded-2xl shadow-2xl px-8 py-6 text-center">
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-3 text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold transition-colors duration-300"
+          aria-label="Close"
+        >
+          ×
+        </button>
+        <p className="text-3xl leading-snug" style={{ fontFamily: '"Dancing Script", cursive', color: 'var(--theme-message)' }}>
+          {shown}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GiftMessageCard;
@@ -0,0 +1,101 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { COLORS, GreetingConfig, GreetingConfigInput, TreeMode } from '../types';
+
+// The original A6 greeting, used when no config is supplied and as the base for partial configs
+export const DEFAULT_GREETING: GreetingConfig = {
+  recipient: 'A6',
+  seed: 'A6',
+  title: 'A6’s Christmas Tree',
+  headline: [
+    { text: 'A6', size: 450 },
+    { text: 'MERRY CHRISTMAS', size: 180, weight: 700 },
+  ],
+  textPages: [],
+  cover: {
+    lines: ['Merry', 'Christmas'],
+    tagTitle: '打开盒子',
+    tagSubtitle: 'A6的圣诞盒子',
+  },
+  photos: [{ url: 'https://i.imgur.com/SlozniS.jpg' }],
+  // Eason Chan - Lonely Christmas (圣诞结)
+  music: [{ url: 'https://music.163.com/song/media/outer/url?id=65766.mp3', title: '圣诞结' }],
+  giftMessages: [
+    'Merry Christmas, A6!',
+    'May every wish you make this year come true.',
+    'Thank you for all the light you bring.',
+    'Here’s to snowy walks, warm drinks and good company.',
+  ],
+  palette: { ...COLORS },
+  show: {
+    loop: true,
+    steps: [
+      { mode: TreeMode.CHAOS, duration: 6, camera: 'front', music: 'play' },
+      { mode: TreeMode.FORMED, duration: 8, camera: 'high' },
+      { mode: TreeMode.FORMED, duration: 8, camera: 'close' },
+      { mode: TreeMode.TEXT, duration: 10, camera: 'front' },
+    ],
+  },
+};
+
+// Fill in anything the JSON file left out
+export const resolveGreetingConfig = (input: GreetingConfigInput): GreetingConfig => ({
+  ...DEFAULT_GREETING,
+  ...input,
+  cover: { ...DEFAULT_GREETING.cover, ...input.cover },
+  palette: { ...DEFAULT_GREETING.palette, ...input.palette },
+  show: { ...DEFAULT_GREETING.show, ...input.show },
+});
+
+// Source comes from `?greeting=<file or url>`, e.g. `?greeting=/greetings/example.json`
+export const getGreetingSource = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('greeting');
+};
+
+// `?seed=` lets a layout be tried out without editing the config
+const applyUrlOverrides = (config: GreetingConfig): GreetingConfig => {
+  if (typeof window === 'undefined') return config;
+  const seed = new URLSearchParams(window.location.search).get('seed');
+  return seed ? { ...config, seed } : config;
+};
+
+export const loadGreetingConfig = async (source: string | null): Promise<GreetingConfig> => {
+  if (!source) return DEFAULT_GREETING;
+
+  try {
+    const response = await fetch(source);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const input = (await response.json()) as GreetingConfigInput;
+    return resolveGreetingConfig(input);
+  } catch (e) {
+    console.error(`Failed to load greeting config from ${source}, using defaults:`, e);
+    return DEFAULT_GREETING;
+  }
+};
+
+const GreetingContext = createContext<GreetingConfig>(DEFAULT_GREETING);
+
+export const useGreeting = () => useContext(GreetingContext);
+
+// Loads the config once and holds rendering until it is ready, so the default greeting never flashes
+export const GreetingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [config, setConfig] = useState<GreetingConfig | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadGreetingConfig(getGreetingSource()).then((loaded) => {
+      if (!cancelled) setConfig(applyUrlOverrides(loaded));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (config) document.title = config.title;
+  }, [config]);
+
+  if (!config) return null;
+
+  return <GreetingContext.Provider value={config}>{children}</GreetingContext.Provider>;
+};
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { createRng } from './Random';
+
+// --- IMAGE-TO-PARTICLE SAMPLER ---
+// Scans a photo's pixels and places particles where the picture is bright and opaque,
+// each carrying the colour of the pixel it landed on. Results are cached like the text sampler's.
+
+export interface ImageSampleOptions {
+  url: string;
+  count: number; // Point budget: exactly this many points are returned
+  worldWidth?: number; // Width of a landscape image in world units
+  maxWorldHeight?: number; // Portrait images are fitted to this height instead
+  center?: [number, number, number];
+  depth?: number; // Bright pixels are pushed towards the viewer by up to this much
+  seed?: string | number;
+}
+
+export interface ImageSample {
+  positions: Float32Array;
+  colors: Float32Array; // sRGB 0..1, written straight to the particle colour
+}
+
+const DEFAULTS = {
+  worldWidth: 18,
+  maxWorldHeight: 12,
+  center: [0, 7, 0] as [number, number, number],
+  depth: 1.5,
+  seed: 0 as string | number,
+};
+
+// Plenty of detail for 65k particles, cheap to scan
+const SAMPLE_SIZE = 256;
+
+// Each photo or mosaic option change adds a sample, so only the most recent ones are kept
+const MAX_CACHED = 12;
+const cache = new Map<string, { url: string; request: Promise<ImageSample> }>();
+
+const remember = (key: string, url: string, request: Promise<ImageSample>) => {
+  cache.delete(key);
+  cache.set(key, { url, request }); // Maps iterate in insertion order, so the first key is the stalest
+  if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value!);
+};
+
+// Drops every sample of an image, for when its blob URL is revoked
+export const forgetSampledImage = (url: string) => {
+  cache.forEach((entry, key) => {
+    if (entry.url === url) cache.delete(key);
+  });
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous'; // Remote photos must allow CORS, or the canvas can't be read
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${url}`));
+    image.src = url;
+  });
+
+const scan = async (options: Required<ImageSampleOptions>): Promise<ImageSample> => {
+  const { url, count, worldWidth, maxWorldHeight, center, depth, seed } = options;
+  const image = await loadImage(url);
+
+  const ratio = Math.min(1, SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(image.naturalHeight * ratio));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  // Weight each pixel by opacity and brightness; dark corners still get a few particles
+  const cumulative = new Float32Array(width * height);
+  let total = 0;
+  for (let p = 0; p < width * height; p++) {
+    const r = data[p * 4] / 255;
+    const g = data[p * 4 + 1] / 255;
+    const b = data[p * 4 + 2] / 255;
+    const alpha = data[p * 4 + 3] / 255;
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    total += alpha * (0.15 + 0.85 * luminance);
+    cumulative[p] = total;
+  }
+  if (total <= 0) throw new Error(`${url} has no visible pixels`);
+
+  const scale = Math.min(worldWidth / width, maxWorldHeight / height);
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const rng = createRng(seed);
+
+  // Stratified draws over the cumulative weights: even coverage, no clumping
+  let pixel = 0;
+  for (let i = 0; i < count; i++) {
+    const target = ((i + rng()) / count) * total;
+    while (pixel < cumulative.length - 1 && cumulative[pixel] < target) pixel++;
+
+    const px = pixel % width;
+    const py = Math.floor(pixel / width);
+    const r = data[pixel * 4] / 255;
+    const g = data[pixel * 4 + 1] / 255;
+    const b = data[pixel * 4 + 2] / 255;
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+    positions[i * 3] = center[0] + (px + rng() - width / 2) * scale;
+    positions[i * 3 + 1] = center[1] - (py + rng() - height / 2) * scale;
+    positions[i * 3 + 2] = center[2] + (luminance - 0.5) * depth + (rng() - 0.5) * 0.2;
+
+    colors[i * 3] = r;
+    colors[i * 3 + 1] = g;
+    colors[i * 3 + 2] = b;
+  }
+
+  // Strata run top to bottom; shuffle so neighbouring particles don't all travel together
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    for (let k = 0; k < 3; k++) {
+      const pos = positions[i * 3 + k];
+      positions[i * 3 + k] = positions[j * 3 + k];
+      positions[j * 3 + k] = pos;
+      const col = colors[i * 3 + k];
+      colors[i * 3 + k] = colors[j * 3 + k];
+      colors[j * 3 + k] = col;
+    }
+  }
+
+  return { positions, colors };
+};
+
+export const sampleImagePoints = (options: ImageSampleOptions): Promise<ImageSample> => {
+  const resolved = { ...DEFAULTS, ...options };
+  const key = JSON.stringify(resolved);
+  const cached = cache.get(key);
+  if (cached) {
+    remember(key, cached.url, cached.request);
+    return cached.request;
+  }
+
+  const request = scan(resolved);
+  remember(key, resolved.url, request);
+  request.catch(() => {
+    if (cache.get(key)?.request === request) cache.delete(key); // Let a later attempt retry
+  });
+  return request;
+};
+
+// Sample for the given photo, or null while it loads (or if it can't be read)
+export const useSampledImage = (options: ImageSampleOptions | null) => {
+  const [sample, setSample] = useState<ImageSample | null>(null);
+  const key = options ? JSON.stringify(options) : null;
+
+  useEffect(() => {
+    if (!options) {
+      setSample(null);
+      return;
+    }
+    let cancelled = false;
+    sampleImagePoints(options)
+      .then((result) => {
+        if (!cancelled) setSample(result);
+      })
+      .catch((e) => console.error('Failed to sample photo for the mosaic:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return sample;
+};
@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import { LightProgram } from '../types';
+import { Rng } from './Random';
+
+// --- LIGHT STRANDS ---
+// The fairy lights hang on a few strands that spiral up the tree, evenly spaced along each wire.
+// A program turns a light's place on its strand and the time into a colour; brightness above 1
+// reaches into the bloom. The colour multiplies the lights' theme tint.
+
+export const STRAND_COUNT = 4;
+const STRAND_TURNS = 3.5; // Times each strand winds around the tree
+const STRAND_LIFT = 0.2; // Lights sit this far outside the foliage
+const STRAND_BOTTOM = 0.04; // Share of the tree height left bare at the bottom...
+const STRAND_TOP = 0.93; // ...and where the strands end, below the star
+const PATH_SAMPLES = 512;
+
+// Cumulative length along one strand, so lights can be spaced evenly along the wire rather than
+// by height (which would bunch them up near the narrow top)
+const pathCache = new Map<string, Float32Array>();
+
+const getPathPoint = (height: number, baseRadius: number, t: number, phase: number): [number, number, number] => {
+  const ratio = STRAND_BOTTOM + (STRAND_TOP - STRAND_BOTTOM) * t;
+  const radius = baseRadius * (1 - ratio) + STRAND_LIFT;
+  const theta = phase + t * STRAND_TURNS * Math.PI * 2;
+  return [radius * Math.cos(theta), ratio * height, radius * Math.sin(theta)];
+};
+
+const getPathLengths = (height: number, baseRadius: number) => {
+  const key = `${height}:${baseRadius}`;
+  let lengths = pathCache.get(key);
+  if (!lengths) {
+    lengths = new Float32Array(PATH_SAMPLES + 1);
+    let previous = getPathPoint(height, baseRadius, 0, 0);
+    for (let i = 1; i <= PATH_SAMPLES; i++) {
+      const point = getPathPoint(height, baseRadius, i / PATH_SAMPLES, 0);
+      lengths[i] = lengths[i - 1] + Math.hypot(point[0] - previous[0], point[1] - previous[1], point[2] - previous[2]);
+      previous = point;
+    }
+    pathCache.set(key, lengths);
+  }
+  return lengths;
+};
+
+// Where light `i` of `total` sits: strands take turns, so each holds an equal share
+export const getStrandSlot = (i: number, total: number) => {
+  const perStrand = Math.ceil(total / STRAND_COUNT);
+  return {
+    strand: i % STRAND_COUNT,
+    along: (Math.floor(i / STRAND_COUNT) + 0.5) / perStrand, // 0 at the bottom end, 1 at the top
+  };
+};
+
+export const getStrandPoint = (height: number, baseRadius: number, i: number, total: number): [number, number, number] => {
+  const { strand, along } = getStrandSlot(i, total);
+  const lengths = getPathLengths(height, baseRadius);
+
+  // Invert the length table: find the curve parameter at this share of the wire
+  const target = along * lengths[PATH_SAMPLES];
+  let low = 0;
+  let high = PATH_SAMPLES;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (lengths[mid] < target) low = mid;
+    else high = mid;
+  }
+  const span = lengths[high] - lengths[low];
+  const t = (low + (span > 0 ? (target - lengths[low]) / span : 0)) / PATH_SAMPLES;
+
+  return getPathPoint(height, baseRadius, t, (strand / STRAND_COUNT) * Math.PI * 2);
+};
+
+// --- PROGRAMS ---
+
+export interface LightSlot {
+  strand: number;
+  along: number;
+  random: number; // Fixed per light, staggers twinkles and sparkles
+}
+
+export const getLightSlots = (count: number, rng: Rng): LightSlot[] =>
+  Array.from({ length: count }, (_, i) => ({ ...getStrandSlot(i, count), random: rng() }));
+
+type LightProgramColor = (slot: LightSlot, index: number, time: number, out: THREE.Color) => THREE.Color;
+
+// Cheap hash, for sparkles that differ per light and per moment
+const hash = (n: number) => {
+  const x = Math.sin(n * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+const CHASE_WAVES = 3; // Pulses running along each strand at once
+const CHASE_SPEED = 0.4; // Strand lengths per second
+const BREATHE_PERIOD = 4; // Seconds per breath
+const WHEEL_SPEED = 0.08; // Hue turns per second
+const SPARKLE_RATE = 6; // Chances per second for each light to flash
+const SPARKLE_ODDS = 0.03;
+
+export const LIGHT_PROGRAMS: Record<LightProgram, { label: string; color: LightProgramColor }> = {
+  steady: {
+    label: 'Steady',
+    color: (_, __, ___, out) => out.setScalar(1),
+  },
+  twinkle: {
+    label: 'Twinkle',
+    // Every light on its own slow cycle, dimming briefly now and then
+    color: ({ random }, _, time, out) => {
+      const wave = 0.5 + 0.5 * Math.sin(time * (1.2 + random * 2.4) + random * Math.PI * 2);
+      return out.setScalar(0.3 + 0.9 * Math.pow(wave, 0.5));
+    },
+  },
+  chase: {
+    label: 'Chase',
+    // Bright heads with fading tails running up each strand
+    color: ({ along }, _, time, out) => {
+      const wave = THREE.MathUtils.euclideanModulo(along * CHASE_WAVES - time * CHASE_SPEED * CHASE_WAVES, 1);
+      return out.setScalar(0.15 + 1.4 * Math.pow(wave, 6));
+    },
+  },
+  breathe: {
+    label: 'Breathe',
+    color: (_, __, time, out) => out.setScalar(0.15 + 1.1 * (0.5 - 0.5 * Math.cos((time / BREATHE_PERIOD) * Math.PI * 2))),
+  },
+  'colour-wheel': {
+    label: 'Colour wheel',
+    // A rainbow rolling up the strands, each strand a little ahead of the last
+    color: ({ strand, along }, _, time, out) =>
+      out.setHSL(THREE.MathUtils.euclideanModulo(along - strand / STRAND_COUNT / 4 - time * WHEEL_SPEED, 1), 1, 0.55).multiplyScalar(1.3),
+  },
+  sparkle: {
+    label: 'Sparkle',
+    // Dim, with lights flaring at random and fading over a moment
+    color: ({ random }, index, time, out) => {
+      const moment = time * SPARKLE_RATE + random;
+      const flash = hash(index * 7919 + Math.floor(moment)) < SPARKLE_ODDS ? Math.pow(1 - (moment % 1), 2) : 0;
+      return out.setScalar(0.3 + 2 * flash);
+    },
+  },
+};
+
+export const LIGHT_PROGRAM_IDS = Object.keys(LIGHT_PROGRAMS) as LightProgram[];
@@ -0,0 +1,79 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { LightProgram } from '../types';
+import { useGreeting } from './GreetingContext';
+import { LIGHT_PROGRAM_IDS, LIGHT_PROGRAMS } from './LightStrands';
+
+// --- LIGHT PROGRAMS ---
+// Which program the light strands run. Visitors pick one like on a real set of smart fairy
+// lights; the show timeline can switch it too, without overwriting the visitor's saved choice.
+
+interface LightsContextValue {
+  program: LightProgram;
+  setProgram: (program: LightProgram, remember?: boolean) => void;
+}
+
+const LightsContext = createContext<LightsContextValue | null>(null);
+
+export const useLights = () => {
+  const lights = useContext(LightsContext);
+  if (!lights) throw new Error('useLights must be used inside a LightsProvider');
+  return lights;
+};
+
+const STORAGE_KEY = 'a6-lights';
+
+// Config and show steps are plain JSON, so a program name can't be trusted to exist
+export const isProgram = (value: string | null | undefined): value is LightProgram =>
+  LIGHT_PROGRAM_IDS.some((id) => id === value);
+
+// The stored choice wins over the greeting's own program
+const getInitialProgram = (configured?: LightProgram): LightProgram => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isProgram(stored)) return stored;
+  } catch {
+    // Storage can be blocked (private mode); fall through to the config
+  }
+  return isProgram(configured) ? configured : 'steady';
+};
+
+export const LightsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { lights: configured } = useGreeting();
+  const [program, setProgramState] = useState(() => getInitialProgram(configured));
+
+  const setProgram = useCallback((next: LightProgram, remember = true) => {
+    setProgramState(next);
+    if (!remember) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Not persisted, but still applied for this visit
+    }
+  }, []);
+
+  const value = useMemo(() => ({ program, setProgram }), [program, setProgram]);
+
+  return <LightsContext.Provider value={value}>{children}</LightsContext.Provider>;
+};
+
+// Compact picker shown under the theme picker
+export const LightsControl: React.FC = () => {
+  const { program, setProgram } = useLights();
+
+  return (
+    <label className="bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] font-bold py-1 px-3 rounded-full shadow-lg flex items-center gap-2 text-sm">
+      Lights
+      <select
+        value={program}
+        onChange={(e) => setProgram(e.target.value as LightProgram)}
+        className="bg-transparent outline-none cursor-pointer hover:text-[var(--theme-message)]"
+      >
+        {LIGHT_PROGRAM_IDS.map((id) => (
+          <option key={id} value={id}>
+            {LIGHT_PROGRAMS[id].label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
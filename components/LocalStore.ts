@@ -0,0 +1,86 @@
+// --- LOCAL STORE ---
+// One IndexedDB database for everything the visitor adds on this device (photos, music).
+// Nothing is uploaded anywhere; each kind of record has its own object store.
+
+export type LocalStoreName = 'photos' | 'tracks';
+
+interface LocalRecord {
+  id: string;
+  order: number;
+}
+
+const DB_NAME = 'a6-tree';
+const DB_VERSION = 2; // 2 added the music tracks
+const STORES: LocalStoreName[] = ['photos', 'tracks'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach((name) => {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab is upgrading the database: step aside, the next call reopens it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // An older version is still open in another tab and won't close
+      request.onblocked = () => reject(new Error(`${DB_NAME} is open in another tab at an older version`));
+    });
+    // Let a later call retry if opening failed (e.g. storage blocked in private mode)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Every record of a store, in the visitor's order
+export const listRecords = async <T extends LocalRecord>(name: LocalStoreName): Promise<T[]> => {
+  const db = await openDb();
+  const records = await requestToPromise(db.transaction(name).objectStore(name).getAll() as IDBRequest<T[]>);
+  return records.sort((a, b) => a.order - b.order);
+};
+
+export const saveRecords = async <T extends LocalRecord>(name: LocalStoreName, records: T[]) => {
+  const db = await openDb();
+  const tx = db.transaction(name, 'readwrite');
+  const store = tx.objectStore(name);
+  records.forEach((record) => store.put(record));
+  await transactionDone(tx);
+};
+
+export const deleteRecord = async (name: LocalStoreName, id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(name, 'readwrite');
+  tx.objectStore(name).delete(id);
+  await transactionDone(tx);
+};
+
+export const createLocalId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
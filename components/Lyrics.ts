@@ -0,0 +1,110 @@
+// --- LYRICS ---
+// Timed lines for a track, read from an LRC file (`[01:23.45]line`) or a WebVTT subtitle file.
+// Each line is shown from its time until the next line starts (LRC) or its cue ends (WebVTT).
+
+export interface LyricLine {
+  start: number; // Seconds into the track
+  end: number; // Seconds; Infinity for the last LRC line
+  text: string; // May hold several lines, separated by '\n'
+}
+
+export type LyricsFormat = 'lrc' | 'vtt';
+
+// --- LRC ---
+
+const LRC_TIME = /\[(\d+):(\d{1,2}(?:[.:]\d+)?)\]/g;
+const LRC_OFFSET = /^\[offset:\s*([+-]?\d+)\s*\]/im;
+const LRC_WORD_TIME = /<\d+:\d{1,2}(?:[.:]\d+)?>/g; // Enhanced LRC word timings, not used
+
+const parseLrcTime = (minutes: string, seconds: string) => Number(minutes) * 60 + Number(seconds.replace(':', '.'));
+
+export const parseLrc = (source: string): LyricLine[] => {
+  // A positive offset (in ms) shows the lines earlier
+  const offset = Number(source.match(LRC_OFFSET)?.[1] ?? 0) / 1000;
+  const timed: { start: number; text: string }[] = [];
+
+  source.split(/\r?\n/).forEach((row) => {
+    const stamps = [...row.matchAll(LRC_TIME)];
+    if (stamps.length === 0) return; // Metadata such as [ar:...] or [ti:...]
+    const text = row.replace(LRC_TIME, '').replace(LRC_WORD_TIME, '').trim();
+    // One text can carry several stamps, e.g. a repeated chorus
+    stamps.forEach(([, minutes, seconds]) => timed.push({ start: Math.max(0, parseLrcTime(minutes, seconds) - offset), text }));
+  });
+
+  timed.sort((a, b) => a.start - b.start);
+  return timed
+    .map((line, i) => ({ ...line, end: timed[i + 1]?.start ?? Infinity }))
+    .filter((line) => line.text !== ''); // Empty lines only mark where the previous one stops
+};
+
+// --- WEBVTT ---
+
+const VTT_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}\.\d{3})/;
+
+const parseVttTime = (stamp: string) => stamp.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+
+export const parseVtt = (source: string): LyricLine[] => {
+  const lines: LyricLine[] = [];
+
+  // Cues are blocks separated by blank lines: an optional id, the timing, then the text
+  source.split(/\r?\n\s*\r?\n/).forEach((block) => {
+    const rows = block.split(/\r?\n/);
+    const timingRow = rows.findIndex((row) => VTT_TIMING.test(row.trim()));
+    if (timingRow < 0) return; // Header, NOTE or STYLE block
+    const [, start, end] = rows[timingRow].trim().match(VTT_TIMING)!;
+    const text = rows
+      .slice(timingRow + 1)
+      .map((row) => row.replace(/<[^>]+>/g, '').trim()) // Voice, class and timestamp tags
+      .filter(Boolean)
+      .join('\n');
+    if (text) lines.push({ start: parseVttTime(start), end: parseVttTime(end), text });
+  });
+
+  return lines.sort((a, b) => a.start - b.start);
+};
+
+// --- LOADING ---
+
+const getLyricsFormat = (url: string, source: string): LyricsFormat =>
+  /^\uFEFF?WEBVTT/.test(source) || /\.vtt(?:[?#]|$)/i.test(url) ? 'vtt' : 'lrc';
+
+export const parseLyrics = (source: string, format: LyricsFormat) => (format === 'vtt' ? parseVtt(source) : parseLrc(source));
+
+const cache = new Map<string, Promise<LyricLine[]>>();
+
+// Fetched once per URL. A file that can't be loaded leaves the track without lyrics.
+export const loadLyrics = (url: string): Promise<LyricLine[]> => {
+  let lyrics = cache.get(url);
+  if (!lyrics) {
+    lyrics = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then((source) => parseLyrics(source, getLyricsFormat(url, source)))
+      .catch((e) => {
+        console.error(`Failed to load lyrics from ${url}:`, e);
+        cache.delete(url); // Try again next time the track comes up
+        return [];
+      });
+    cache.set(url, lyrics);
+  }
+  return lyrics;
+};
+
+// The line showing at `time`, or -1 between lines. Lines are sorted by start.
+export const findLyricLine = (lines: LyricLine[], time: number) => {
+  let low = 0;
+  let high = lines.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found >= 0 && time < lines[found].end ? found : -1;
+};
@@ -0,0 +1,168 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { GreetingLine, LyricsDisplay, TreeMode } from '../types';
+import { useGreeting } from './GreetingContext';
+import { findLyricLine, loadLyrics, LyricLine } from './Lyrics';
+import { useMusic } from './MusicContext';
+
+// --- LYRICS ---
+// Follows the playing track's lyrics and knows which line is being sung. The line is shown as a
+// subtitle and, if the visitor picks it, spelled out by the foliage particles in TEXT mode.
+
+interface LyricsContextValue {
+  lines: LyricLine[]; // The current track's lyrics; empty when it has none
+  line: LyricLine | null; // The line being sung right now
+  display: LyricsDisplay;
+  setDisplay: (display: LyricsDisplay) => void;
+}
+
+const LyricsContext = createContext<LyricsContextValue | null>(null);
+
+export const useLyrics = () => {
+  const lyrics = useContext(LyricsContext);
+  if (!lyrics) throw new Error('useLyrics must be used inside a LyricsProvider');
+  return lyrics;
+};
+
+const STORAGE_KEY = 'a6-lyrics';
+const DISPLAYS: { id: LyricsDisplay; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'subtitles', label: 'Subtitles' },
+  { id: 'particles', label: 'In the tree' },
+];
+
+const isDisplay = (value: string | null | undefined): value is LyricsDisplay => DISPLAYS.some((d) => d.id === value);
+
+// The stored choice wins over the greeting's own setting
+const getInitialDisplay = (configured?: LyricsDisplay): LyricsDisplay => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isDisplay(stored)) return stored;
+  } catch {
+    // Storage can be blocked (private mode); fall through to the config
+  }
+  return isDisplay(configured) ? configured : 'subtitles';
+};
+
+export const LyricsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { lyrics: configured } = useGreeting();
+  const { player } = useMusic();
+  const [display, setDisplayState] = useState(() => getInitialDisplay(configured));
+  const [lyricsUrl, setLyricsUrl] = useState(player.track?.lyrics);
+  const [lines, setLines] = useState<LyricLine[]>([]);
+  const [lineIndex, setLineIndex] = useState(-1);
+  const [playing, setPlaying] = useState(player.playing);
+
+  const setDisplay = useCallback((next: LyricsDisplay) => {
+    setDisplayState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Not persisted, but still applied for this visit
+    }
+  }, []);
+
+  useEffect(() => {
+    setLyricsUrl(player.track?.lyrics);
+    setPlaying(player.playing);
+    const offTrack = player.on('trackChange', () => setLyricsUrl(player.track?.lyrics));
+    const offPlay = player.on('playStateChange', setPlaying);
+    return () => {
+      offTrack();
+      offPlay();
+    };
+  }, [player]);
+
+  useEffect(() => {
+    setLines([]);
+    setLineIndex(-1);
+    if (!lyricsUrl) return;
+    let cancelled = false;
+    loadLyrics(lyricsUrl).then((loaded) => {
+      if (!cancelled) setLines(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [lyricsUrl]);
+
+  // The audio's `timeupdate` only fires a few times a second, too coarse for lyrics, so the
+  // position is polled every frame instead. State only changes when the line does.
+  useEffect(() => {
+    if (!playing || lines.length === 0) return;
+    let frameId = 0;
+    const tick = () => {
+      setLineIndex(findLyricLine(lines, player.currentTime));
+      frameId = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frameId);
+  }, [player, playing, lines]);
+
+  const line = lines[lineIndex] ?? null;
+  const value = useMemo(() => ({ lines, line, display, setDisplay }), [lines, line, display, setDisplay]);
+
+  return <LyricsContext.Provider value={value}>{children}</LyricsContext.Provider>;
+};
+
+const PARTICLE_LINE_SIZE = 180; // Same as the headline's second line
+
+// The line to spell out in TEXT mode, or undefined to keep the greeting's own text. Outside TEXT
+// the particles don't show text, so new lines there never cost a re-sample.
+export const useLyricParticleText = (mode: TreeMode): GreetingLine[] | undefined => {
+  const { line, display } = useLyrics();
+  const text = display === 'particles' && mode === TreeMode.TEXT ? line?.text : undefined;
+  return useMemo(
+    () => (text ? text.split('\n').map((row) => ({ text: row, size: PARTICLE_LINE_SIZE, weight: 700 })) : undefined),
+    [text]
+  );
+};
+
+// Picker shown in the control stack, only when some track has lyrics
+export const LyricsControl: React.FC = () => {
+  const { display, setDisplay } = useLyrics();
+  const { tracks } = useMusic();
+  if (!tracks.some((track) => track.lyrics)) return null;
+
+  return (
+    <label className="bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] font-bold py-1 px-3 rounded-full shadow-lg flex items-center gap-2 text-sm">
+      Lyrics
+      <select
+        value={display}
+        onChange={(e) => setDisplay(e.target.value as LyricsDisplay)}
+        className="bg-transparent outline-none cursor-pointer hover:text-[var(--theme-message)]"
+      >
+        {DISPLAYS.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+// The sung line near the bottom of the screen. Stands aside in TEXT mode when the particles
+// already spell it out, and under the gift cover.
+export const LyricsCaption: React.FC<{ mode: TreeMode }> = ({ mode }) => {
+  const { line, display } = useLyrics();
+  const [shownText, setShownText] = useState('');
+
+  // Keep the last line while it fades out
+  useEffect(() => {
+    if (line) setShownText(line.text);
+  }, [line]);
+
+  const hidden = display === 'off' || mode === TreeMode.GIFT || (display === 'particles' && mode === TreeMode.TEXT);
+  const visible = !!line && !hidden;
+
+  return (
+    <div
+      className={`absolute bottom-16 inset-x-0 px-8 flex justify-center pointer-events-none transition-opacity duration-500 ${visible ? 'opacity-100' : 'opacity-0'}`}
+      aria-live="polite"
+    >
+      <p className="max-w-3xl text-center text-white text-xl sm:text-2xl font-serif whitespace-pre-line drop-shadow-[0_0_12px_var(--theme-accent-dark)]">
+        {shownText}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { GreetingTrack } from '../types';
+import { useGreeting } from './GreetingContext';
+import { getAudioGraph } from './AudioGraph';
+import { createLocalId, deleteRecord, listRecords, saveRecords } from './LocalStore';
+import { CROSSFADE, MusicPlayer, useMusicPlayer } from './MusicPlayer';
+
+// --- PLAYLIST ---
+// The greeting's tracks followed by any the visitor added from their device. Added tracks are
+// kept in IndexedDB like the photos, so they work offline and on networks that block the
+// greeting's own music.
+
+interface StoredTrack {
+  id: string;
+  title: string;
+  blob: Blob;
+  order: number;
+}
+
+export interface LocalTrack extends StoredTrack {
+  url: string; // Object URL for the stored blob
+}
+
+interface MusicContextValue {
+  player: MusicPlayer;
+  tracks: GreetingTrack[]; // The playlist, in playing order
+  localTracks: LocalTrack[];
+  addFiles: (files: Iterable<File>) => Promise<void>;
+  removeTrack: (id: string) => void;
+}
+
+const MusicContext = createContext<MusicContextValue | null>(null);
+
+export const useMusic = () => {
+  const music = useContext(MusicContext);
+  if (!music) throw new Error('useMusic must be used inside a MusicProvider');
+  return music;
+};
+
+const withUrl = (track: StoredTrack): LocalTrack => ({ ...track, url: URL.createObjectURL(track.blob) });
+
+// "01 - Jingle Bells.mp3" -> "01 - Jingle Bells"
+const getTrackTitle = (file: File) => file.name.replace(/\.[^.]+$/, '') || 'Untitled';
+
+// Storage failures are logged but never block playback: the track then lasts for this visit only
+const persist = (task: Promise<void>) => {
+  task.catch((e) => console.error('Failed to update the playlist:', e));
+};
+
+export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const greeting = useGreeting();
+  const [localTracks, setLocalTracks] = useState<LocalTrack[]>([]);
+  const tracksRef = useRef(localTracks);
+  tracksRef.current = localTracks;
+
+  useEffect(() => {
+    let cancelled = false;
+    listRecords<StoredTrack>('tracks')
+      .then((stored) => {
+        if (!cancelled) setLocalTracks((current) => [...stored.map(withUrl), ...current]);
+      })
+      .catch((e) => console.error('Failed to load saved music:', e));
+    return () => {
+      cancelled = true;
+      tracksRef.current.forEach((track) => URL.revokeObjectURL(track.url));
+    };
+  }, []);
+
+  const addFiles = useCallback(async (files: Iterable<File>) => {
+    let order = tracksRef.current.reduce((max, track) => Math.max(max, track.order), -1);
+    const added = [...files]
+      .filter((file) => file.type.startsWith('audio/'))
+      .map((file) => withUrl({ id: createLocalId(), title: getTrackTitle(file), blob: file, order: ++order }));
+    if (added.length === 0) return;
+
+    setLocalTracks((current) => [...current, ...added]);
+    persist(saveRecords('tracks', added.map(({ url, ...track }) => track)));
+  }, []);
+
+  const removeTrack = useCallback((id: string) => {
+    const track = tracksRef.current.find((t) => t.id === id);
+    if (!track) return;
+    setLocalTracks((current) => current.filter((t) => t.id !== id));
+    persist(deleteRecord('tracks', id));
+    // Revoked once the player has faded out of it; a deck still reading the URL would fail mid-fade
+    setTimeout(() => URL.revokeObjectURL(track.url), CROSSFADE * 1000 + 500);
+  }, []);
+
+  const tracks = useMemo(
+    () => [...greeting.music, ...localTracks.map(({ url, title }) => ({ url, title }))],
+    [greeting.music, localTracks]
+  );
+  const player = useMusicPlayer(tracks);
+
+  const value = useMemo(
+    () => ({ player, tracks, localTracks, addFiles, removeTrack }),
+    [player, tracks, localTracks, addFiles, removeTrack]
+  );
+
+  return <MusicContext.Provider value={value}>{children}</MusicContext.Provider>;
+};
+
+// Starts the music from a click: the audio graph may only start its context during a user gesture
+export const playFromGesture = (player: MusicPlayer) => {
+  getAudioGraph();
+  player.play();
+};
+
+const ERROR_TIMEOUT = 6000; // How long a skipped track's notice stays up
+
+// Play button with previous/next, and a panel with the volume and the playlist
+export const MusicControl: React.FC = () => {
+  const { player, tracks, localTracks, addFiles, removeTrack } = useMusic();
+  const [playing, setPlaying] = useState(player.playing);
+  const [index, setIndex] = useState(player.index);
+  const [volume, setVolume] = useState(player.volume);
+  const [muted, setMuted] = useState(player.muted);
+  const [failedTrack, setFailedTrack] = useState<string>();
+  const [open, setOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setPlaying(player.playing);
+    setIndex(player.index);
+    const offPlay = player.on('playStateChange', setPlaying);
+    const offTrack = player.on('trackChange', setIndex);
+    const offVolume = player.on('volumeChange', (nextVolume, nextMuted) => {
+      setVolume(nextVolume);
+      setMuted(nextMuted);
+    });
+    const offError = player.on('error', (track) => setFailedTrack(track.title));
+    return () => {
+      offPlay();
+      offTrack();
+      offVolume();
+      offError();
+    };
+  }, [player]);
+
+  useEffect(() => {
+    if (!failedTrack) return;
+    const timeout = setTimeout(() => setFailedTrack(undefined), ERROR_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [failedTrack]);
+
+  const toggle = () => (player.playing ? player.pause() : playFromGesture(player));
+  const select = (i: number) => {
+    player.select(i);
+    if (!player.playing) playFromGesture(player);
+  };
+
+  const localIds = new Map(localTracks.map((track) => [track.url, track.id]));
+  const buttonClass = 'bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold rounded-full transition-all duration-300 shadow-lg hover:shadow-xl disabled:opacity-50';
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex items-center gap-2">
+        {tracks.length > 1 && (
+          <button onClick={() => player.previous()} className={`${buttonClass} w-9 h-9`} aria-label="Previous track">
+            ⏮
+          </button>
+        )}
+        <button onClick={toggle} disabled={tracks.length === 0} className={`${buttonClass} py-2 px-4 flex items-center gap-2`}>
+          {playing ? (
+            <>
+              <span className="animate-pulse">🎵</span> Playing
+            </>
+          ) : (
+            <>
+              <span>🔇</span> Play Music
+            </>
+          )}
+        </button>
+        {tracks.length > 1 && (
+          <button onClick={() => player.next()} className={`${buttonClass} w-9 h-9`} aria-label="Next track">
+            ⏭
+          </button>
+        )}
+        <button onClick={() => setOpen((o) => !o)} className={`${buttonClass} w-9 h-9`} aria-label="Playlist and volume">
+          {open ? '×' : '☰'}
+        </button>
+      </div>
+
+      {failedTrack && (
+        <p className="text-[var(--theme-message)] text-xs bg-white/40 rounded-full px-3 py-1">Couldn't load “{failedTrack}”, skipped it.</p>
+      )}
+
+      {open && (
+        <div className="bg-white/30 backdrop-blur-md border border-white/40 rounded-2xl shadow-lg p-3 flex flex-col gap-2 text-sm text-[var(--theme-accent-dark)] w-64">
+          <div className="flex items-center gap-2">
+            <button onClick={() => player.toggleMute()} className="hover:text-[var(--theme-message)]" aria-label={muted ? 'Unmute' : 'Mute'}>
+              {muted || volume === 0 ? '🔇' : '🔊'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={muted ? 0 : volume}
+              onChange={(e) => player.setVolume(Number(e.target.value))}
+              className="flex-1 accent-[var(--theme-message)]"
+              aria-label="Volume"
+            />
+          </div>
+
+          <ol className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+            {tracks.map((track, i) => {
+              const localId = localIds.get(track.url);
+              return (
+                <li key={`${track.url}-${i}`} className="flex items-center gap-2">
+                  <button
+                    onClick={() => select(i)}
+                    className={`flex-1 text-left truncate hover:text-[var(--theme-message)] ${i === index ? 'font-bold text-[var(--theme-message)]' : ''}`}
+                  >
+                    {i === index && playing ? '♪ ' : ''}
+                    {track.title}
+                  </button>
+                  {localId && (
+                    <button onClick={() => removeTrack(localId)} className="text-xs hover:text-[var(--theme-message)]" aria-label={`Remove ${track.title}`}>
+                      ✕
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="w-full bg-white/60 hover:bg-white text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold py-1 rounded-full transition-colors duration-300"
+          >
+            Add music from this device
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="audio/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) addFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
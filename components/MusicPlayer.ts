@@ -0,0 +1,309 @@
+import { useEffect, useMemo } from 'react';
+import { GreetingTrack, MusicCue } from '../types';
+import { EventEmitter } from './EventEmitter';
+import { getMusicElements, isMusicRouted, isRoutable, registerMusic, routeMusic } from './AudioGraph';
+
+// --- MUSIC PLAYER ---
+// A playlist on two <audio> decks, so a new track can fade in while the old one fades out.
+// Volume and mute are remembered per browser. A track that fails to load is reported and
+// skipped; when every track has failed the player stops instead of looping through errors.
+
+export interface MusicEvents {
+  trackChange: [index: number];
+  playStateChange: [playing: boolean];
+  volumeChange: [volume: number, muted: boolean];
+  error: [track: GreetingTrack]; // The track couldn't be loaded and was skipped
+}
+
+export const CROSSFADE = 2.5; // Seconds, also how early the next track starts
+
+const STORAGE_KEY = 'a6-music';
+const DEFAULT_VOLUME = 0.8;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const loadSettings = (): { volume: number; muted: boolean } => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof stored?.volume === 'number' && typeof stored?.muted === 'boolean') {
+      return { volume: clamp(stored.volume), muted: stored.muted };
+    }
+  } catch {
+    // Blocked storage or a damaged value; the defaults will do
+  }
+  return { volume: DEFAULT_VOLUME, muted: false };
+};
+
+interface Deck {
+  element: HTMLAudioElement;
+  fade: number; // 0..1, this deck's share of the crossfade
+  target: number;
+  ending: boolean; // The next track has already been started over this one's tail
+}
+
+export class MusicPlayer extends EventEmitter<MusicEvents> {
+  tracks: GreetingTrack[] = [];
+  index = 0;
+  playing = false;
+  volume: number;
+  muted: boolean;
+
+  elements: HTMLAudioElement[]; // The decks' current elements, as registered with the audio graph
+  private decks: Deck[];
+  private active = 0;
+  private failed = new Set<number>(); // Tracks that failed since one last played
+  private frameId: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  constructor() {
+    super();
+    ({ volume: this.volume, muted: this.muted } = loadSettings());
+    this.decks = [this.createDeck(), this.createDeck()];
+    this.elements = this.decks.map((deck) => deck.element);
+    registerMusic(this.elements);
+  }
+
+  get track(): GreetingTrack | undefined {
+    return this.tracks[this.index];
+  }
+
+  // Position in the current track, in seconds
+  get currentTime() {
+    return this.decks[this.active].element.currentTime;
+  }
+
+  // Keeps the current track playing if it is still in the list
+  setTracks(tracks: GreetingTrack[]) {
+    const current = this.track?.url;
+    this.tracks = tracks;
+    this.failed.clear();
+
+    const kept = tracks.findIndex((track) => track.url === current);
+    if (kept >= 0) {
+      this.index = kept;
+    } else if (tracks.length === 0) {
+      this.pause();
+      this.decks.forEach((deck) => deck.element.removeAttribute('src'));
+      this.index = 0;
+    } else if (this.isLoaded(this.decks[this.active])) {
+      this.select(0);
+      return;
+    } else {
+      this.index = 0;
+    }
+    this.emit('trackChange', this.index);
+  }
+
+  play() {
+    if (this.playing || this.tracks.length === 0) return;
+    const deck = this.decks[this.active];
+    if (!this.isLoaded(deck) || deck.element.error) this.load(deck); // A failed track gets another try
+    this.failed.clear();
+    this.playing = true;
+    this.emit('playStateChange', true);
+    deck.fade = deck.target = 1;
+    this.applyVolume(deck);
+    this.start(deck);
+  }
+
+  // Stops at once; a crossfade in progress is cut short
+  pause() {
+    if (!this.playing) return;
+    this.playing = false;
+    this.decks.forEach((deck) => {
+      deck.element.pause();
+      deck.fade = deck.target;
+    });
+    this.stopFading();
+    this.emit('playStateChange', false);
+  }
+
+  toggle() {
+    if (this.playing) this.pause();
+    else this.play();
+  }
+
+  // Switches track from the start; while playing, the new one fades in over the old one
+  select(index: number) {
+    const count = this.tracks.length;
+    if (count === 0) return;
+    this.index = ((index % count) + count) % count;
+
+    const previous = this.decks[this.active];
+    this.active = 1 - this.active;
+    const deck = this.decks[this.active];
+    this.load(deck);
+
+    if (this.playing) {
+      previous.target = 0;
+      deck.fade = 0;
+      deck.target = 1;
+      this.start(deck);
+      this.startFading();
+    } else {
+      previous.element.pause();
+      previous.fade = previous.target = 0;
+      deck.fade = deck.target = 1;
+    }
+    this.applyVolume(previous);
+    this.applyVolume(deck);
+    this.emit('trackChange', this.index);
+  }
+
+  next() {
+    this.select(this.index + 1);
+  }
+
+  previous() {
+    this.select(this.index - 1);
+  }
+
+  // Show timeline music cues; a number plays that track from the start
+  cue(action: MusicCue) {
+    if (action === 'pause') {
+      this.pause();
+      return;
+    }
+    if (typeof action === 'number') this.select(action);
+    this.play();
+  }
+
+  setVolume(volume: number) {
+    this.volume = clamp(volume);
+    this.muted = false;
+    this.volumeChanged();
+  }
+
+  toggleMute() {
+    this.muted = !this.muted;
+    this.volumeChanged();
+  }
+
+  dispose() {
+    this.pause();
+    this.decks.forEach((deck) => deck.element.removeAttribute('src'));
+    if (getMusicElements() === this.elements) registerMusic([]);
+  }
+
+  private createDeck(): Deck {
+    const deck: Deck = { element: new Audio(), fade: 0, target: 0, ending: false };
+    this.listen(deck);
+    return deck;
+  }
+
+  // Hooks up the deck's current element
+  private listen(deck: Deck) {
+    const { element } = deck;
+    element.preload = 'auto';
+
+    element.addEventListener('error', () => this.handleError(deck));
+    element.addEventListener('playing', () => {
+      if (deck === this.decks[this.active]) this.failed.clear();
+    });
+    // Start the next track over this one's tail, so the crossfade ends as this one does
+    element.addEventListener('timeupdate', () => {
+      if (deck !== this.decks[this.active] || !this.playing || deck.ending) return;
+      if (Number.isFinite(element.duration) && element.duration - element.currentTime <= CROSSFADE) {
+        deck.ending = true;
+        this.next();
+      }
+    });
+    element.addEventListener('ended', () => {
+      if (deck === this.decks[this.active] && this.playing && !deck.ending) this.next();
+    });
+  }
+
+  private isLoaded(deck: Deck) {
+    return deck.element.getAttribute('src') !== null;
+  }
+
+  private load(deck: Deck) {
+    const { url } = this.tracks[this.index];
+    // A deck wired into the audio graph would play a host without CORS as silence and can't be
+    // unwired, so such a track gets a fresh element that plays straight to the speakers
+    if (isMusicRouted(deck.element) && !isRoutable(url)) {
+      deck.element.pause();
+      deck.element.removeAttribute('src');
+      deck.element = new Audio();
+      this.listen(deck);
+      this.elements = this.decks.map((d) => d.element);
+      registerMusic(this.elements);
+    }
+    deck.element.src = url;
+    routeMusic(deck.element);
+    deck.ending = false;
+  }
+
+  private start(deck: Deck) {
+    deck.element.play().catch((e: DOMException) => {
+      // Load failures arrive as an error event; only a refused autoplay needs handling here
+      if (e.name !== 'NotAllowedError' || deck !== this.decks[this.active]) return;
+      this.playing = false;
+      this.emit('playStateChange', false);
+    });
+  }
+
+  private handleError(deck: Deck) {
+    if (deck !== this.decks[this.active] || !this.isLoaded(deck)) return;
+    const track = this.tracks[this.index];
+    if (!track) return;
+    console.error(`Could not load "${track.title}" (${track.url}), skipping it:`, deck.element.error);
+    this.emit('error', track);
+
+    this.failed.add(this.index);
+    if (this.failed.size >= this.tracks.length) {
+      this.pause();
+      return;
+    }
+    if (this.playing) this.next();
+  }
+
+  private applyVolume(deck: Deck) {
+    deck.element.volume = clamp(deck.fade * (this.muted ? 0 : this.volume));
+  }
+
+  private volumeChanged() {
+    this.decks.forEach((deck) => this.applyVolume(deck));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ volume: this.volume, muted: this.muted }));
+    } catch {
+      // Not persisted, but still applied for this visit
+    }
+    this.emit('volumeChange', this.volume, this.muted);
+  }
+
+  private startFading() {
+    if (this.frameId !== null) return;
+    this.lastTimestamp = null;
+    this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  private stopFading() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+  }
+
+  private tick = (timestamp: number) => {
+    const delta = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    let settled = true;
+    this.decks.forEach((deck) => {
+      const step = delta / CROSSFADE;
+      deck.fade = deck.target > deck.fade ? Math.min(deck.target, deck.fade + step) : Math.max(deck.target, deck.fade - step);
+      this.applyVolume(deck);
+      if (deck.fade === 0 && !deck.element.paused) deck.element.pause();
+      if (deck.fade !== deck.target) settled = false;
+    });
+
+    this.frameId = settled ? null : requestAnimationFrame(this.tick);
+  };
+}
+
+// One player for the app's lifetime, fed the playlist whenever it changes
+export const useMusicPlayer = (tracks: GreetingTrack[]) => {
+  const player = useMemo(() => new MusicPlayer(), []);
+  useEffect(() => player.setTracks(tracks), [player, tracks]);
+  useEffect(() => () => player.dispose(), [player]);
+  return player;
+};
@@ -0,0 +1,272 @@
+import * as THREE from 'three';
+import { Theme } from '../types';
+import { InstancePlacement, InstanceWeight } from './MathUtils';
+import { QualityProfile } from './QualityManager';
+import type { ThemeColorRole } from './ThemeContext';
+
+// --- ORNAMENT REGISTRY ---
+// Every ornament family is plain data: what its layers look like, how many there are and
+// how they move. OrnamentsSystem renders whatever is registered here, so a new family needs
+// an entry below, not a new component.
+
+// Everything a material may depend on; the materials are only rebuilt when it changes
+export interface OrnamentContext {
+  physicalMaterials: QualityProfile['physicalMaterials'];
+}
+
+// One instanced mesh. All layers of a family share the same per-instance transforms.
+export interface OrnamentLayer {
+  geometry: () => THREE.BufferGeometry;
+  material: (context: OrnamentContext) => THREE.Material;
+  tint?: ThemeColorRole; // The material's colour follows this theme colour
+  audioGlow?: number; // Brightens the tint by this much at full music energy
+  colors?: (theme: Theme) => string[]; // Per-instance colours, picked at random from the list
+  lightProgram?: boolean; // Per-instance colours follow the running light program (see LightStrands.ts)
+  lid?: boolean; // Swings open with the instance (openable families only)
+}
+
+export interface OrnamentFamily {
+  id: string; // Seed stream label: changing one family never reshuffles the others
+  count: number;
+  weight: InstanceWeight; // Speed, lag and spin (see generateInstanceData)
+  placement?: InstancePlacement; // Defaults to the weight's usual placement
+  scale: number;
+  uprightWhenFormed?: boolean; // Only spin around Y while on the tree (wheels stay on the ground)
+  openable?: boolean; // Instances can be hovered and clicked open while the tree is formed
+  layers: OrnamentLayer[];
+}
+
+// --- GEOMETRY UTILS ---
+
+// Simplified merge function
+export function mergeBufferGeometries(geometries: THREE.BufferGeometry[]) {
+  let vertexCount = 0;
+  let indexCount = 0;
+  geometries.forEach(g => {
+    vertexCount += g.attributes.position.count;
+    if(g.index) indexCount += g.index.count;
+  });
+
+  const positionArray = new Float32Array(vertexCount * 3);
+  const normalArray = new Float32Array(vertexCount * 3);
+
+  let indexArray: Uint16Array | Uint32Array | null = null;
+  if(indexCount > 0) {
+      indexArray = new (vertexCount > 65535 ? Uint32Array : Uint16Array)(indexCount);
+  }
+
+  let offset = 0;
+  let indexOffset = 0;
+  let indexBase = 0;
+
+  geometries.forEach(g => {
+    const pos = g.attributes.position.array;
+    positionArray.set(pos, offset * 3);
+
+    const norm = g.attributes.normal?.array;
+    if(norm) normalArray.set(norm, offset * 3);
+
+    if(g.index && indexArray) {
+        for(let i=0; i<g.index.count; i++) {
+            indexArray[indexOffset + i] = g.index.array[i] + indexBase;
+        }
+        indexOffset += g.index.count;
+    }
+
+    const count = g.attributes.position.count;
+    indexBase += count;
+    offset += count;
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positionArray, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normalArray, 3));
+  if(indexArray) geometry.setIndex(new THREE.BufferAttribute(indexArray, 1));
+
+  return geometry;
+}
+
+// --- FAMILIES ---
+
+// 1. GIFTS (Box + Ribbons + Lid), clicked open to reveal a message
+const giftColors = (theme: Theme) => theme.ornaments.gifts;
+const giftMaterial = () => new THREE.MeshStandardMaterial({ roughness: 0.3, metalness: 0.1 });
+const ribbonMaterial = () => new THREE.MeshStandardMaterial({ roughness: 0.2, metalness: 0.8 });
+
+const GIFT: OrnamentFamily = {
+  id: 'gifts',
+  count: 120, // A dense circular pile
+  weight: 'heavy',
+  scale: 0.8,
+  openable: true,
+  layers: [
+    {
+      geometry: () => new THREE.BoxGeometry(1, 1, 1),
+      material: giftMaterial,
+      colors: giftColors,
+    },
+    {
+      // Ribbon Cross
+      geometry: () => {
+        const vBand = new THREE.BoxGeometry(1.02, 1.02, 0.2);
+        const hBand = new THREE.BoxGeometry(0.2, 1.02, 1.02);
+        return mergeBufferGeometries([vBand, hBand]);
+      },
+      material: ribbonMaterial,
+      tint: 'giftRibbon',
+    },
+    {
+      // Lid, painted like its box
+      geometry: () => {
+        const lid = new THREE.BoxGeometry(1.06, 0.18, 1.06);
+        lid.translate(0, 0.5, 0);
+        return lid;
+      },
+      material: giftMaterial,
+      colors: giftColors,
+      lid: true,
+    },
+    {
+      // Ribbon over the lid + knot on top
+      geometry: () => {
+        const vBand = new THREE.BoxGeometry(1.08, 0.2, 0.2);
+        vBand.translate(0, 0.5, 0);
+        const hBand = new THREE.BoxGeometry(0.2, 0.2, 1.08);
+        hBand.translate(0, 0.5, 0);
+        const knot = new THREE.BoxGeometry(0.4, 0.2, 0.4);
+        knot.translate(0, 0.65, 0); // Move knot to top
+        return mergeBufferGeometries([vBand, hBand, knot]);
+      },
+      material: ribbonMaterial,
+      tint: 'giftRibbon',
+      lid: true,
+    },
+  ],
+};
+
+// 2. RETRO CARS (Chassis + Wheels + Glass/Details)
+const CAR: OrnamentFamily = {
+  id: 'cars',
+  count: 30, // "Lots of toy cars"
+  weight: 'upright',
+  scale: 1.2,
+  uprightWhenFormed: true,
+  layers: [
+    {
+      // Chassis: main body + cabin, painted
+      geometry: () => {
+        const body = new THREE.BoxGeometry(1.4, 0.5, 0.7);
+        body.translate(0, 0.25, 0);
+        const cabin = new THREE.BoxGeometry(0.8, 0.45, 0.6);
+        cabin.translate(-0.1, 0.725, 0);
+        return mergeBufferGeometries([body, cabin]);
+      },
+      material: () => new THREE.MeshStandardMaterial({ roughness: 0.3, metalness: 0.5 }),
+      colors: (theme) => theme.ornaments.cars,
+    },
+    {
+      // Wheels: high roughness, no reflection (rubber)
+      geometry: () => {
+        const wGeo = new THREE.CylinderGeometry(0.2, 0.2, 0.15, 16);
+        wGeo.rotateX(Math.PI / 2); // Face out
+
+        const fl = wGeo.clone(); fl.translate(0.45, 0.2, 0.35);
+        const fr = wGeo.clone(); fr.translate(0.45, 0.2, -0.35);
+        const bl = wGeo.clone(); bl.translate(-0.45, 0.2, 0.35);
+        const br = wGeo.clone(); br.translate(-0.45, 0.2, -0.35);
+        return mergeBufferGeometries([fl, fr, bl, br]);
+      },
+      material: () => new THREE.MeshStandardMaterial({ color: '#1a1a1a', roughness: 0.9, metalness: 0.0 }),
+    },
+    {
+      // Glass & headlights
+      geometry: () => {
+        // Windshield (Front)
+        const windshield = new THREE.BoxGeometry(0.1, 0.35, 0.5);
+        windshield.rotateZ(-0.1); // Slight rake
+        windshield.translate(0.31, 0.725, 0);
+
+        // Rear Window
+        const rearWindow = new THREE.BoxGeometry(0.1, 0.35, 0.5);
+        rearWindow.rotateZ(0.1);
+        rearWindow.translate(-0.51, 0.725, 0);
+
+        // Side Windows (Left/Right)
+        const sideW = new THREE.BoxGeometry(0.6, 0.35, 0.05);
+        const sideL = sideW.clone(); sideL.translate(-0.1, 0.725, 0.31);
+        const sideR = sideW.clone(); sideR.translate(-0.1, 0.725, -0.31);
+
+        // Headlights (Cylinders)
+        const hLeft = new THREE.CylinderGeometry(0.1, 0.1, 0.1, 12);
+        hLeft.rotateZ(Math.PI / 2);
+        hLeft.translate(0.7, 0.25, 0.2);
+        const hRight = hLeft.clone();
+        hRight.translate(0, 0, -0.4);
+
+        return mergeBufferGeometries([windshield, rearWindow, sideL, sideR, hLeft, hRight]);
+      },
+      // Transmission needs an extra render of the scene, so lower tiers fake it with plain opacity
+      material: ({ physicalMaterials }) => physicalMaterials
+        ? new THREE.MeshPhysicalMaterial({
+            color: '#e0f7fa', // Very light blue tint
+            roughness: 0.1,
+            metalness: 0.1,
+            transmission: 0.6, // Glassy
+            thickness: 0.5,
+            transparent: true,
+            opacity: 0.8
+          })
+        : new THREE.MeshStandardMaterial({ color: '#e0f7fa', roughness: 0.1, metalness: 0.1, transparent: true, opacity: 0.6 }),
+    },
+  ],
+};
+
+const sphere = () => new THREE.SphereGeometry(1, 16, 16);
+
+// 3. BALLS (Chrome baubles)
+const BALL: OrnamentFamily = {
+  id: 'balls',
+  count: 60,
+  weight: 'light',
+  scale: 0.5,
+  layers: [
+    {
+      geometry: sphere,
+      material: ({ physicalMaterials }) => physicalMaterials
+        ? new THREE.MeshPhysicalMaterial({ roughness: 0.1, metalness: 0.6, clearcoat: 1 })
+        : new THREE.MeshStandardMaterial({ roughness: 0.1, metalness: 0.6 }),
+      tint: 'baubles',
+    },
+  ],
+};
+
+// 4. LIGHTS (High count, small size, strung on strands running light programs)
+const LIGHT: OrnamentFamily = {
+  id: 'lights',
+  count: 200,
+  weight: 'light',
+  placement: 'strands',
+  scale: 0.1,
+  layers: [
+    {
+      geometry: sphere,
+      material: () => new THREE.MeshBasicMaterial(),
+      tint: 'lights',
+      audioGlow: 1.5, // Above 1, so they push into the bloom
+      lightProgram: true,
+    },
+  ],
+};
+
+// Rendered in this order
+const FAMILIES = {
+  GIFT,
+  CAR,
+  BALL,
+  LIGHT,
+};
+
+// The family names are whatever is registered above
+export type OrnamentType = keyof typeof FAMILIES;
+
+export const ORNAMENT_REGISTRY: Record<OrnamentType, OrnamentFamily> = FAMILIES;
@@ -1,58 +1,51 @@
 
-import React, { useRef, useMemo, useLayoutEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useEffect, useMemo, useLayoutEffect, useRef } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeMode, COLORS } from '../types';
+import { LightProgram, TreeMode } from '../types';
+import { useGreeting } from './GreetingContext';
+import { getLayoutWeights, useTransitionDirector } from './TransitionDirector';
+import { createRng } from './Random';
+import { useQuality } from './QualityManager';
 import { generateInstanceData, InstanceData } from './MathUtils';
+import { ORNAMENT_REGISTRY, OrnamentFamily, OrnamentType } from './OrnamentRegistry';
+import { getThemeBlend, themeColors, useTheme } from './ThemeContext';
+import { audioLevels } from './AudioAnalysis';
+import { getLightSlots, LIGHT_PROGRAMS } from './LightStrands';
+import { useLights } from './LightsContext';
+import { clearModeBounds, getLayoutBounds, setModeBounds } from './CameraFit';
+
+// --- INTERACTION ---
+
+// Hover/open state of an openable family. Targets are set by pointer events,
+// the per-instance amounts ease towards them every frame.
+interface OpenState {
+    hovered: number | null;
+    opened: number | null;
+    hover: Float32Array; // 0..1 per instance
+    open: Float32Array; // 0..1 per instance
+}
 
-// --- GEOMETRY UTILS ---
-
-// Simplified merge function
-function mergeBufferGeometries(geometries: THREE.BufferGeometry[]) {
-  let vertexCount = 0;
-  let indexCount = 0;
-  geometries.forEach(g => {
-    vertexCount += g.attributes.position.count;
-    if(g.index) indexCount += g.index.count;
-  });
-
-  const positionArray = new Float32Array(vertexCount * 3);
-  const normalArray = new Float32Array(vertexCount * 3);
-  
-  let indexArray: Uint16Array | Uint32Array | null = null;
-  if(indexCount > 0) {
-      indexArray = new (vertexCount > 65535 ? Uint32Array : Uint16Array)(indexCount);
-  }
-
-  let offset = 0;
-  let indexOffset = 0;
-  let indexBase = 0;
-
-  geometries.forEach(g => {
-    const pos = g.attributes.position.array;
-    positionArray.set(pos, offset * 3);
-    
-    const norm = g.attributes.normal?.array;
-    if(norm) normalArray.set(norm, offset * 3);
-    
-    if(g.index && indexArray) {
-        for(let i=0; i<g.index.count; i++) {
-            indexArray[indexOffset + i] = g.index.array[i] + indexBase;
-        }
-        indexOffset += g.index.count;
-    }
-    
-    const count = g.attributes.position.count;
-    indexBase += count;
-    offset += count;
-  });
-
-  const geometry = new THREE.BufferGeometry();
-  geometry.setAttribute('position', new THREE.BufferAttribute(positionArray, 3));
-  geometry.setAttribute('normal', new THREE.BufferAttribute(normalArray, 3));
-  if(indexArray) geometry.setIndex(new THREE.BufferAttribute(indexArray, 1));
-  
-  return geometry;
+// Lids hinge on the back top edge of the box
+const LID_HINGE = new THREE.Vector3(0, 0.59, -0.53);
+const LID_MAX_ANGLE = 1.9;
+
+const lidMatrix = (target: THREE.Matrix4, open: number) => {
+    const angle = -LID_MAX_ANGLE * open;
+    return target
+        .makeTranslation(LID_HINGE.x, LID_HINGE.y + open * 0.15, LID_HINGE.z)
+        .multiply(new THREE.Matrix4().makeRotationX(angle))
+        .multiply(new THREE.Matrix4().makeTranslation(-LID_HINGE.x, -LID_HINGE.y, -LID_HINGE.z));
+};
+
+// --- LIGHT PROGRAMS ---
+
+const PROGRAM_FADE = 0.8; // Seconds to cross-fade from one light program to the next
+
+interface ProgramFade {
+    from: LightProgram;
+    to: LightProgram;
+    start: number | null; // Clock time the fade began, set on its first frame
 }
 
 // --- HOOKS ---
@@ -61,40 +54,39 @@ function mergeBufferGeometries(geometries: THREE.BufferGeometry[]) {
 const useSyncedAnimation = (
     mode: TreeMode, 
     data: InstanceData[], 
-    refs: React.MutableRefObject<THREE.InstancedMesh | null>[],
+    refs: React.RefObject<THREE.InstancedMesh | null>[],
     scaleMultiplier: number = 1,
-    isUpright: boolean = false
+    isUpright: boolean = false,
+    openState?: OpenState,
+    lidLayers: boolean[] = []
 ) => {
     const tempObject = useMemo(() => new THREE.Object3D(), []);
+    const lidLocal = useMemo(() => new THREE.Matrix4(), []);
+    const lidWorld = useMemo(() => new THREE.Matrix4(), []);
+    const director = useTransitionDirector();
 
     useFrame((state, delta) => {
         if (!refs[0]?.current) return;
         const count = data.length;
-        const isScatterMode = mode === TreeMode.TEXT;
 
         for (let i = 0; i < count; i++) {
             const item = data[i];
             const { chaosPos, treePos, textPos, rotation, scale, speed, spinSpeed } = item;
             
-            // Physics / Lerp
-            let target = chaosPos;
-            if (mode === TreeMode.FORMED) target = treePos;
-            if (isScatterMode) target = textPos; // Scattered randomly in Text Mode
-            
-            if (!item.currentPos) {
-                item.currentPos = new THREE.Vector3(...chaosPos);
-            }
-            
-            const current = item.currentPos;
-            const targetVec = new THREE.Vector3(...target);
-            
-            // Variable speed based on "weight"
-            const alpha = Math.min(delta * speed * 1.5, 1);
-            current.lerp(targetVec, alpha);
+            // Heavier items ("weight" = low speed) set off later but land with the rest
+            const lag = THREE.MathUtils.clamp((3 - speed) / 3, 0, 1) * 0.6;
+            const w = getLayoutWeights(director, lag);
+
+            // Blend the layouts; text and photo modes scatter items randomly in the background
+            const background = w.text + w.photos + w.mosaic;
+            tempObject.position.set(
+                chaosPos[0] * w.chaos + treePos[0] * w.formed + textPos[0] * background,
+                chaosPos[1] * w.chaos + treePos[1] * w.formed + textPos[1] * background,
+                chaosPos[2] * w.chaos + treePos[2] * w.formed + textPos[2] * background
+            );
 
             // Animated Rotation
             const time = state.clock.elapsedTime;
-            tempObject.position.copy(current);
             
             if (isUpright && mode === TreeMode.FORMED) {
                // Spin around Y axis only for cars on tree
@@ -112,229 +104,227 @@ const useSyncedAnimation = (
             }
             
             // Scale pulse on formed/text
-            const pulse = (mode === TreeMode.FORMED || isScatterMode) ? (1 + Math.sin(time * 2 + i) * 0.05) : 1;
+            const pulse = 1 + Math.sin(time * 2 + i) * 0.05 * (w.formed + background);
             
             // Show ornaments in TEXT mode (scattered)
             const textScaleReduction = 1.0; 
 
-            tempObject.scale.setScalar(scale * scaleMultiplier * pulse * textScaleReduction);
+            // Hovered gifts swell a little, the opened one grows so its contents read
+            let interaction = 1;
+            let open = 0;
+            if (openState) {
+                const ease = Math.min(delta * 8, 1);
+                openState.hover[i] += ((openState.hovered === i ? 1 : 0) - openState.hover[i]) * ease;
+                openState.open[i] += ((openState.opened === i ? 1 : 0) - openState.open[i]) * ease * 0.5;
+                open = openState.open[i];
+                interaction = 1 + openState.hover[i] * 0.15 + open * 0.3;
+            }
+
+            tempObject.scale.setScalar(scale * scaleMultiplier * pulse * textScaleReduction * interaction);
             
             tempObject.updateMatrix();
 
             // Apply to all synced layers
-            refs.forEach(ref => {
-                if(ref.current) ref.current.setMatrixAt(i, tempObject.matrix);
+            refs.forEach((ref, layer) => {
+                if(!ref.current) return;
+                if (lidLayers[layer] && open > 0.001) {
+                    lidWorld.multiplyMatrices(tempObject.matrix, lidMatrix(lidLocal, open));
+                    ref.current.setMatrixAt(i, lidWorld);
+                } else {
+                    ref.current.setMatrixAt(i, tempObject.matrix);
+                }
             });
         }
         
         refs.forEach(ref => {
-            if(ref.current) ref.current.instanceMatrix.needsUpdate = true;
+            if(!ref.current) return;
+            ref.current.instanceMatrix.needsUpdate = true;
+            // Instances move every frame; drop the cached bounds so pointer raycasts stay accurate
+            if (openState) ref.current.boundingSphere = null;
         });
     });
 };
 
 // --- COMPONENTS ---
 
-// 1. COMPLEX GIFT SYSTEM (Box + Ribbons)
-const GiftSystem: React.FC<{ mode: TreeMode }> = ({ mode }) => {
-    // Increased count to 120 for a dense circular pile
-    const count = 120;
-    const bodyRef = useRef<THREE.InstancedMesh>(null);
-    const ribbonRef = useRef<THREE.InstancedMesh>(null);
-    const data = useMemo(() => generateInstanceData(count, 'heavy'), []);
-
-    // Construct Geometry
-    const { boxGeo, ribbonGeo } = useMemo(() => {
-        const box = new THREE.BoxGeometry(1, 1, 1);
-        
-        // Create Ribbon Cross
-        const vBand = new THREE.BoxGeometry(1.02, 1.02, 0.2);
-        const hBand = new THREE.BoxGeometry(0.2, 1.02, 1.02);
-        const knot = new THREE.BoxGeometry(0.4, 0.2, 0.4);
-        knot.translate(0, 0.55, 0); // Move knot to top
-        
-        const ribbon = mergeBufferGeometries([vBand, hBand, knot]);
-        
-        return { boxGeo: box, ribbonGeo: ribbon };
-    }, []);
-
-    // Materials
-    const boxMat = useMemo(() => new THREE.MeshStandardMaterial({ roughness: 0.3, metalness: 0.1 }), []);
-    const ribbonMat = useMemo(() => new THREE.MeshStandardMaterial({ color: COLORS.gold, roughness: 0.2, metalness: 0.8 }), []);
+// One registered family: an instanced mesh per layer, all driven by the same instance data
+const OrnamentFamilyMesh: React.FC<{
+    mode: TreeMode,
+    family: OrnamentFamily,
+    opened?: number, // Openable families only: the instance currently open
+    onOpen?: (index?: number) => void
+}> = ({ mode, family, opened, onOpen }) => {
+    const { count, layers } = family;
+    const { seed } = useGreeting();
+    const { theme } = useTheme();
+    const { physicalMaterials } = useQuality().profile;
+
+    const data = useMemo(
+        () => generateInstanceData(count, family.weight, createRng(`${seed}:${family.id}`), family.placement),
+        [family, seed]
+    );
+    const refs = useMemo(() => layers.map(() => React.createRef<THREE.InstancedMesh>()), [layers]);
+    const geometries = useMemo(() => layers.map(layer => layer.geometry()), [layers]);
+    const materials = useMemo(
+        () => layers.map(layer => layer.material({ physicalMaterials })),
+        [layers, physicalMaterials]
+    );
+    const lidLayers = useMemo(() => layers.map(layer => !!layer.lid), [layers]);
+    // Passed in as args, so the meshes don't own them: free the old ones when a tier change replaces them
+    useEffect(() => () => geometries.forEach(geometry => geometry.dispose()), [geometries]);
+    useEffect(() => () => materials.forEach(material => material.dispose()), [materials]);
+
+    const openState = useMemo<OpenState | undefined>(() => family.openable ? {
+        hovered: null,
+        opened: null,
+        hover: new Float32Array(count),
+        open: new Float32Array(count),
+    } : undefined, [family, count]);
+
+    // Gifts can only be picked from the pile, not while they fly around
+    const interactive = !!openState && mode === TreeMode.FORMED;
+    if (openState) {
+        openState.opened = opened ?? null;
+        if (!interactive) openState.hovered = null;
+    }
 
-    // Initialize Colors
+    // Light programs: each light's place on its strand, and the fade between programs
+    const { program } = useLights();
+    const lightSlots = useMemo(
+        () => getLightSlots(count, createRng(`${seed}:${family.id}-program`)),
+        [family, count, seed]
+    );
+    const programFade = useRef<ProgramFade>({ from: program, to: program, start: null });
+    useEffect(() => {
+        const fade = programFade.current;
+        if (fade.to !== program) programFade.current = { from: fade.to, to: program, start: null };
+    }, [program]);
+    const programColors = useMemo(() => ({ from: new THREE.Color(), to: new THREE.Color() }), []);
+
+    // Per-instance Colors
+    // Every layer restarts the same stream, so layers sharing a colour list (box and lid) match.
+    // New meshes start on their colours; a theme switch blends towards the new ones in the frame loop.
+    const colorTargets = useRef<(Float32Array | null)[]>([]);
+    const blendingColors = useRef(false);
     useLayoutEffect(() => {
-        if (bodyRef.current) {
-            const palette = [COLORS.sakuraPink, COLORS.skyBlue, COLORS.deepBlue, COLORS.white, COLORS.foliagePink];
+        colorTargets.current = layers.map((layer, index) => {
+            const mesh = refs[index].current;
+            // Program layers start plain white; the frame loop takes over from there
+            if (layer.lightProgram && mesh && !mesh.instanceColor) {
+                const white = new THREE.Color(1, 1, 1);
+                for(let i=0; i<count; i++) mesh.setColorAt(i, white);
+            }
+            if (!layer.colors || !mesh) return null;
+            const colors = layer.colors(theme);
+            const rng = createRng(`${seed}:${family.id}-colors`);
+            const target = new Float32Array(count * 3);
+            const color = new THREE.Color();
             for(let i=0; i<count; i++) {
-                const col = new THREE.Color(palette[Math.floor(Math.random() * palette.length)]);
-                bodyRef.current.setColorAt(i, col);
+                color.set(colors[Math.floor(rng() * colors.length)]).toArray(target, i * 3);
             }
-            bodyRef.current.instanceColor!.needsUpdate = true;
-        }
-    }, []);
-
-    useSyncedAnimation(mode, data, [bodyRef, ribbonRef], 0.8);
-
-    return (
-        <group>
-            <instancedMesh ref={bodyRef} args={[boxGeo, boxMat, count]} />
-            <instancedMesh ref={ribbonRef} args={[ribbonGeo, ribbonMat, count]} />
-        </group>
-    );
-};
-
-// 2. RETRO CAR SYSTEM (Chassis + Wheels + Glass/Details)
-const CarSystem: React.FC<{ mode: TreeMode }> = ({ mode }) => {
-    const count = 30; // "Lots of toy cars"
-    const chassisRef = useRef<THREE.InstancedMesh>(null);
-    const wheelsRef = useRef<THREE.InstancedMesh>(null);
-    const glassRef = useRef<THREE.InstancedMesh>(null);
-    const data = useMemo(() => generateInstanceData(count, 'upright'), []);
-
-    // Construct Geometry
-    const { chassisGeo, wheelsGeo, glassGeo } = useMemo(() => {
-        // --- CHASSIS (Painted Body) ---
-        // Main Body
-        const body = new THREE.BoxGeometry(1.4, 0.5, 0.7);
-        body.translate(0, 0.25, 0); 
-        
-        // Cabin
-        const cabin = new THREE.BoxGeometry(0.8, 0.45, 0.6);
-        cabin.translate(-0.1, 0.725, 0); 
+            if (!mesh.instanceColor) {
+                for(let i=0; i<count; i++) mesh.setColorAt(i, color.fromArray(target, i * 3));
+                mesh.instanceColor!.needsUpdate = true;
+            }
+            return target;
+        });
+        blendingColors.current = true;
+    }, [family, refs, materials, theme, seed]);
 
-        const chassis = mergeBufferGeometries([body, cabin]);
+    useFrame((state, delta) => {
+        const time = state.clock.elapsedTime;
+        layers.forEach((layer, index) => {
+            if (layer.tint) {
+                const color = (materials[index] as THREE.Material & { color: THREE.Color }).color.copy(themeColors[layer.tint]);
+                if (layer.audioGlow) color.multiplyScalar(1 + layer.audioGlow * Math.max(audioLevels.energy, audioLevels.beat));
+            }
 
-        // --- WHEELS (Rubber) ---
-        const wGeo = new THREE.CylinderGeometry(0.2, 0.2, 0.15, 16);
-        wGeo.rotateX(Math.PI / 2); // Face out
-        
-        const fl = wGeo.clone(); fl.translate(0.45, 0.2, 0.35);
-        const fr = wGeo.clone(); fr.translate(0.45, 0.2, -0.35);
-        const bl = wGeo.clone(); bl.translate(-0.45, 0.2, 0.35);
-        const br = wGeo.clone(); br.translate(-0.45, 0.2, -0.35);
-        
-        const wheels = mergeBufferGeometries([fl, fr, bl, br]);
-
-        // --- DETAILS (Glass & Lights) ---
-        // Windshield (Front)
-        const windshield = new THREE.BoxGeometry(0.1, 0.35, 0.5);
-        windshield.rotateZ(-0.1); // Slight rake
-        windshield.translate(0.31, 0.725, 0);
-
-        // Rear Window
-        const rearWindow = new THREE.BoxGeometry(0.1, 0.35, 0.5);
-        rearWindow.rotateZ(0.1);
-        rearWindow.translate(-0.51, 0.725, 0);
-
-        // Side Windows (Left/Right)
-        const sideW = new THREE.BoxGeometry(0.6, 0.35, 0.05);
-        const sideL = sideW.clone(); sideL.translate(-0.1, 0.725, 0.31);
-        const sideR = sideW.clone(); sideR.translate(-0.1, 0.725, -0.31);
-
-        // Headlights (Cylinders)
-        const hLeft = new THREE.CylinderGeometry(0.1, 0.1, 0.1, 12);
-        hLeft.rotateZ(Math.PI / 2);
-        hLeft.translate(0.7, 0.25, 0.2);
-        
-        const hRight = hLeft.clone();
-        hRight.translate(0, 0, -0.4);
-
-        const glass = mergeBufferGeometries([windshield, rearWindow, sideL, sideR, hLeft, hRight]);
-
-        return { chassisGeo: chassis, wheelsGeo: wheels, glassGeo: glass };
-    }, []);
-
-    // Materials
-    // Body: Base Color + Metalness (Moderate)
-    const chassisMat = useMemo(() => new THREE.MeshStandardMaterial({ 
-        roughness: 0.3, 
-        metalness: 0.5 
-    }), []);
-
-    // Wheels: High Roughness, No Reflection (Rubber)
-    const wheelsMat = useMemo(() => new THREE.MeshStandardMaterial({ 
-        color: '#1a1a1a', 
-        roughness: 0.9, 
-        metalness: 0.0 
-    }), []);
-
-    // Glass: Transparency + Slight Reflectivity
-    const glassMat = useMemo(() => new THREE.MeshPhysicalMaterial({ 
-        color: '#e0f7fa', // Very light blue tint
-        roughness: 0.1, 
-        metalness: 0.1,
-        transmission: 0.6, // Glassy
-        thickness: 0.5,
-        transparent: true,
-        opacity: 0.8
-    }), []);
-
-    // Initialize Colors for Chassis
-    useLayoutEffect(() => {
-        if (chassisRef.current) {
-            const palette = [COLORS.hotPink, COLORS.deepBlue, COLORS.foliageBlue, '#FF6B6B', '#4ECDC4'];
-            for(let i=0; i<count; i++) {
-                const col = new THREE.Color(palette[Math.floor(Math.random() * palette.length)]);
-                chassisRef.current.setColorAt(i, col);
+            const instanceColor = layer.lightProgram ? refs[index].current?.instanceColor : null;
+            if (!instanceColor) return;
+            const fade = programFade.current;
+            if (fade.start === null) fade.start = time;
+            const mix = fade.from === fade.to ? 1 : Math.min((time - fade.start) / PROGRAM_FADE, 1);
+            const { from, to } = programColors;
+            const current = instanceColor.array as Float32Array;
+            lightSlots.forEach((slot, i) => {
+                LIGHT_PROGRAMS[fade.to].color(slot, i, time, to);
+                if (mix < 1) to.lerp(LIGHT_PROGRAMS[fade.from].color(slot, i, time, from), 1 - mix);
+                to.toArray(current, i * 3);
+            });
+            instanceColor.needsUpdate = true;
+            if (mix === 1) fade.from = fade.to;
+        });
+        if (!blendingColors.current) return;
+
+        const blend = getThemeBlend(delta);
+        let settled = true;
+        colorTargets.current.forEach((target, index) => {
+            const instanceColor = refs[index].current?.instanceColor;
+            if (!target || !instanceColor) return;
+            const current = instanceColor.array as Float32Array;
+            for(let i=0; i<current.length; i++) {
+                const gap = target[i] - current[i];
+                if (Math.abs(gap) > 0.001) settled = false;
+                current[i] += gap * blend;
             }
-            chassisRef.current.instanceColor!.needsUpdate = true;
-        }
-    }, []);
+            instanceColor.needsUpdate = true;
+        });
+        if (settled) blendingColors.current = false;
+    });
 
-    useSyncedAnimation(mode, data, [chassisRef, wheelsRef, glassRef], 1.2, true);
+    useSyncedAnimation(mode, data, refs, family.scale, family.uprightWhenFormed, openState, lidLayers);
+
+    // Where the family hangs on the formed tree (or stands around it), for the camera's fit
+    const groupRef = useRef<THREE.Group>(null);
+    useEffect(() => {
+        if (!groupRef.current) return;
+        const source = `ornaments:${family.id}`;
+        const margin = family.scale * Math.max(...data.map(item => item.scale));
+        setModeBounds(TreeMode.FORMED, source, getLayoutBounds(data.flatMap(item => item.treePos), groupRef.current, { margin }));
+        return () => clearModeBounds(source);
+    }, [family, data]);
+
+    const handlers = interactive ? {
+        onPointerMove: (e: ThreeEvent<PointerEvent>) => {
+            e.stopPropagation();
+            openState!.hovered = e.instanceId ?? null;
+        },
+        onPointerOut: () => {
+            openState!.hovered = null;
+        },
+        onClick: (e: ThreeEvent<MouseEvent>) => {
+            e.stopPropagation();
+            if (e.instanceId === undefined) return;
+            onOpen?.(e.instanceId === opened ? undefined : e.instanceId);
+        },
+    } : {};
 
     return (
-        <group>
-            <instancedMesh ref={chassisRef} args={[chassisGeo, chassisMat, count]} />
-            <instancedMesh ref={wheelsRef} args={[wheelsGeo, wheelsMat, count]} />
-            <instancedMesh ref={glassRef} args={[glassGeo, glassMat, count]} />
+        <group ref={groupRef}>
+            {layers.map((_, index) => (
+                <instancedMesh key={index} ref={refs[index]} args={[geometries[index], materials[index], count]} {...handlers} />
+            ))}
         </group>
     );
 };
 
-// 3. GENERIC ORNAMENTS (Balls, Lights)
-const GenericOrnaments: React.FC<{ mode: TreeMode, type: 'light' | 'floating', geometry: THREE.BufferGeometry, material: THREE.Material, count: number, scale: number }> = 
-({ mode, type, geometry, material, count, scale }) => {
-    const meshRef = useRef<THREE.InstancedMesh>(null);
-    const data = useMemo(() => generateInstanceData(count, type), [count, type]);
-    
-    useLayoutEffect(() => {
-        if (meshRef.current && type !== 'light') {
-             // Random colors for balls only, lights are uniform gold/warm
-             for(let i=0; i<count; i++) {
-                const color = new THREE.Color().setHex(Math.random() > 0.5 ? 0xFFB7C5 : 0x87CEEB);
-                meshRef.current.setColorAt(i, color);
-             }
-             meshRef.current.instanceColor!.needsUpdate = true;
-        }
-    }, []);
-
-    useSyncedAnimation(mode, data, [meshRef], scale);
-
-    return <instancedMesh ref={meshRef} args={[geometry, material, count]} />;
-};
-
 // --- MAIN EXPORT ---
 
-export const OrnamentsSystem: React.FC<{ mode: TreeMode }> = ({ mode }) => {
-  // Shared Geometries
-  const sphereGeo = useMemo(() => new THREE.SphereGeometry(1, 16, 16), []);
-  
-  // Materials
-  const ballMat = useMemo(() => new THREE.MeshPhysicalMaterial({ color: COLORS.white, roughness: 0.1, metalness: 0.6, clearcoat: 1 }), []);
-  const lightMat = useMemo(() => new THREE.MeshBasicMaterial({ color: '#FFFACD' }), []);
+interface OrnamentsSystemProps {
+  mode: TreeMode;
+  openedGift?: number; // Index of the open gift, if any
+  onOpenGift?: (index?: number) => void; // Called with undefined when the open gift is clicked again
+}
 
+export const OrnamentsSystem: React.FC<OrnamentsSystemProps> = ({ mode, openedGift, onOpenGift }) => {
   return (
     <group>
-      <GiftSystem mode={mode} />
-      <CarSystem mode={mode} />
-      
-      {/* Balls */}
-      <GenericOrnaments mode={mode} count={60} geometry={sphereGeo} material={ballMat} type="light" scale={0.5} />
-      
-      {/* Lights (High count, small size) */}
-      <GenericOrnaments mode={mode} count={200} geometry={sphereGeo} material={lightMat} type="light" scale={0.1} />
+      {(Object.keys(ORNAMENT_REGISTRY) as OrnamentType[]).map((type) => {
+        const family = ORNAMENT_REGISTRY[type];
+        return family.openable
+          ? <OrnamentFamilyMesh key={type} mode={mode} family={family} opened={openedGift} onOpen={onOpenGift} />
+          : <OrnamentFamilyMesh key={type} mode={mode} family={family} />;
+      })}
     </group>
   );
 };
@@ -1,10 +1,21 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { TreeMode, COLORS } from '../types';
+import { MusicCue, TreeMode } from '../types';
+import { useGreeting } from './GreetingContext';
+import { QualityControl } from './QualityManager';
+import { ThemeControl } from './ThemeContext';
+import { LightsControl } from './LightsContext';
+import { SnapshotControl } from './Snapshot';
+import { VideoExportControl } from './VideoExport';
+import { usePhotos } from './PhotoContext';
+import { MusicControl, playFromGesture, useMusic } from './MusicContext';
+import { LyricsCaption, LyricsControl } from './LyricsContext';
 
 interface OverlayProps {
   mode: TreeMode;
   setMode: (mode: TreeMode) => void;
+  musicCue?: { action: MusicCue; id: number }; // From the show timeline; `id` changes per cue
+  dialogOpen?: boolean; // The lightbox or a gift card is up: double-clicks leave the scene alone
 }
 
 // 2D Snow Effect Component for the Overlay
@@ -88,10 +99,7 @@ const SnowOverlay: React.FC = () => {
   return <canvas ref={canvasRef} className="absolute inset-0 z-20 pointer-events-none" />;
 };
 
-const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const audioRef = useRef<HTMLAudioElement>(null);
-  
+const Overlay: React.FC<OverlayProps> = ({ mode, setMode, musicCue, dialogOpen }) => {
   // Animation States for Gift Opening
   const [isOpening, setIsOpening] = useState(false);
   const [isFading, setIsFading] = useState(false);
@@ -99,19 +107,14 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
   // Hover state for blur effect
   const [isHovering, setIsHovering] = useState(false);
 
-  // Eason Chan - Lonely Christmas (圣诞结)
-  const musicUrl = "https://music.163.com/song/media/outer/url?id=65766.mp3";
+  const { title, cover } = useGreeting();
+  const { photos } = usePhotos();
+  const { player } = useMusic();
 
-  const toggleMusic = () => {
-    if (audioRef.current) {
-      if (isPlaying) {
-        audioRef.current.pause();
-      } else {
-        audioRef.current.play().catch(e => console.error("Audio playback failed:", e));
-      }
-      setIsPlaying(!isPlaying);
-    }
-  };
+  // Show timeline music cues
+  useEffect(() => {
+    if (musicCue) player.cue(musicCue.action);
+  }, [musicCue]);
 
   const handleModeToggle = () => {
       // If currently in GIFT mode, trigger open instead of normal toggle
@@ -124,25 +127,33 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
           setMode(TreeMode.FORMED);
       } else if (mode === TreeMode.FORMED) {
           setMode(TreeMode.TEXT);
+      } else if (mode === TreeMode.TEXT && photos.length > 0) {
+          setMode(TreeMode.PHOTOS);
+      } else if (mode === TreeMode.PHOTOS) {
+          setMode(TreeMode.MOSAIC);
       } else {
-          // Loop back to Chaos from Text
+          // Loop back to Chaos from the mosaic (or from Text when there are no photos)
           setMode(TreeMode.CHAOS);
       }
   };
   
   useEffect(() => {
-    window.addEventListener('dblclick', handleModeToggle);
-    return () => window.removeEventListener('dblclick', handleModeToggle);
-  }, [mode]);
+    if (dialogOpen) return;
+    const onDoubleClick = (e: MouseEvent) => {
+      // Double-clicking a control or dialog is meant for it, not the scene
+      if (e.target instanceof Element && e.target.closest('button, input, select, [role=dialog]')) return;
+      handleModeToggle();
+    };
+    window.addEventListener('dblclick', onDoubleClick);
+    return () => window.removeEventListener('dblclick', onDoubleClick);
+  }, [mode, photos, dialogOpen]);
 
   const triggerOpen = () => {
       if (isOpening) return;
       setIsOpening(true);
 
       // 1. Play Music immediately
-      if (audioRef.current && !isPlaying) {
-          audioRef.current.play().then(() => setIsPlaying(true)).catch(() => {});
-      }
+      if (!player.playing) playFromGesture(player);
 
       // 2. Fade out background cover
       setTimeout(() => {
@@ -159,12 +170,12 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
       }, 1500);
   };
 
-  const shouldHideTitle = mode === TreeMode.CHAOS || mode === TreeMode.TEXT || mode === TreeMode.GIFT;
+  const shouldHideTitle = mode === TreeMode.CHAOS || mode === TreeMode.TEXT || mode === TreeMode.PHOTOS || mode === TreeMode.MOSAIC || mode === TreeMode.GIFT;
 
-  // --- RIBBON STYLES (Solid Blue, Thin White Edge) ---
+  // --- RIBBON STYLES (Solid Theme Accent, Thin White Edge) ---
   
-  const mainBlue = '#38bdf8'; // Sky Blue (Tailwind sky-400) - Solid
-  const darkBlue = '#0284c7'; // For knot shadow
+  const mainBlue = 'var(--theme-accent)'; // Sky Blue (Tailwind sky-400) in the default theme - Solid
+  const darkBlue = 'var(--theme-accent-dark)'; // For knot shadow
   const white = '#ffffff';
   const edgeSize = '1.5px'; // Thinner edge
 
@@ -219,8 +230,6 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
         }
       `}</style>
       
-      <audio ref={audioRef} src={musicUrl} loop />
-
       {/* --- COVER SCENE --- */}
       {mode === TreeMode.GIFT && (
         <div 
@@ -229,20 +238,19 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
             onPointerEnter={() => setIsHovering(true)}
             onPointerLeave={() => setIsHovering(false)}
         >
-            {/* 1. Background: Sakura Pink */}
-            <div className="absolute inset-0" style={{ backgroundColor: COLORS.sakuraPink }}></div>
+            {/* 1. Background: the theme's scene colour (Sakura Pink by default) */}
+            <div className="absolute inset-0 transition-colors duration-1000" style={{ backgroundColor: 'var(--theme-background)' }}></div>
             
             {/* ADDED: Snow Overlay */}
             <SnowOverlay />
 
             {/* 2. Text: Merry Christmas (Behind Ribbons) */}
             <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none z-0">
-                 <h1 className="text-[15vw] sm:text-[18vw] leading-[0.85] font-black text-white tracking-tighter opacity-100 select-none" style={{ fontFamily: '"Cinzel Decorative", serif' }}>
-                    Merry
-                </h1>
-                <h1 className="text-[15vw] sm:text-[18vw] leading-[0.85] font-black text-white tracking-tighter opacity-100 select-none -mt-[2vw]" style={{ fontFamily: '"Cinzel Decorative", serif' }}>
-                    Christmas
-                </h1>
+                {cover.lines.map((line, i) => (
+                    <h1 key={i} className={`text-[15vw] sm:text-[18vw] leading-[0.85] font-black text-white tracking-tighter opacity-100 select-none ${i > 0 ? '-mt-[2vw]' : ''}`} style={{ fontFamily: '"Cinzel Decorative", serif' }}>
+                        {line}
+                    </h1>
+                ))}
             </div>
 
             {/* 3. Ribbons (Sky Blue with Single Edge Stripe) */}
@@ -318,24 +326,24 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
                 }}
             >
                 {/* Inner Card - origin top-left to swing from string */}
-                {/* CHANGED: Background to Pale Blue (#bae6fd) */}
-                <div className="bg-[#bae6fd] border-[6px] border-white p-5 sm:p-7 rounded-xl shadow-2xl w-[250px] sm:w-[350px] relative transition-transform duration-500 hover:rotate-6 hover:scale-110 origin-top-left">
+                {/* CHANGED: Background to the light accent (Pale Blue #bae6fd by default) */}
+                <div className="bg-[var(--theme-accent-light)] border-[6px] border-white p-5 sm:p-7 rounded-xl shadow-2xl w-[250px] sm:w-[350px] relative transition-transform duration-500 hover:rotate-6 hover:scale-110 origin-top-left">
                     
                     {/* Larger Hole & Corner */}
-                    {/* CHANGED: Darker blue hole accent */}
-                    <div className="absolute -top-2 -left-2 w-4 h-4 bg-[#0ea5e9] rounded-full z-10 opacity-80"></div>
+                    {/* CHANGED: Darker accent hole */}
+                    <div className="absolute -top-2 -left-2 w-4 h-4 bg-[var(--theme-accent-dark)] rounded-full z-10 opacity-80"></div>
                     {/* CHANGED: Light blue accent corner */}
                     <div className="absolute -top-6 -left-6 w-8 h-8 border-b-2 border-l-2 border-[#e0f2fe] rounded-bl-full rotate-45 opacity-80"></div>
 
                     <div className="flex flex-col gap-2 pt-2 pl-2 items-end text-right pr-2">
                         {/* Font: NSimSun */}
-                        {/* CHANGED: Text Color to Background Pink (COLORS.sakuraPink) */}
-                        <h3 className="font-bold text-3xl sm:text-5xl tracking-wide leading-none" style={{ fontFamily: '"NSimSun", serif', color: COLORS.sakuraPink }}>
-                            打开盒子
+                        {/* CHANGED: Text Color to the theme's tag colour (Background Pink by default) */}
+                        <h3 className="font-bold text-3xl sm:text-5xl tracking-wide leading-none" style={{ fontFamily: '"NSimSun", serif', color: 'var(--theme-text)' }}>
+                            {cover.tagTitle}
                         </h3>
-                        <div className="w-full h-[1px] opacity-50 my-1" style={{ backgroundColor: COLORS.sakuraPink }}></div>
-                        <p className="text-xs sm:text-base font-bold leading-relaxed tracking-wider opacity-90" style={{ fontFamily: '"NSimSun", serif', color: COLORS.sakuraPink }}>
-                            A6的圣诞盒子
+                        <div className="w-full h-[1px] opacity-50 my-1" style={{ backgroundColor: 'var(--theme-text)' }}></div>
+                        <p className="text-xs sm:text-base font-bold leading-relaxed tracking-wider opacity-90" style={{ fontFamily: '"NSimSun", serif', color: 'var(--theme-text)' }}>
+                            {cover.tagSubtitle}
                         </p>
                     </div>
                 </div>
@@ -345,22 +353,15 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
       )}
 
 
-      {/* Music Toggle Button */}
-      <div className={`fixed top-8 right-8 pointer-events-auto transition-opacity duration-500 z-[60] ${mode === TreeMode.GIFT && !isOpening ? 'opacity-0' : 'opacity-100'}`}>
-        <button
-          onClick={toggleMusic}
-          className="bg-white/20 backdrop-blur-md border border-white/30 text-sky-600 hover:text-pink-500 font-bold py-2 px-4 rounded-full transition-all duration-300 shadow-lg hover:shadow-xl flex items-center gap-2"
-        >
-          {isPlaying ? (
-            <>
-              <span className="animate-pulse">🎵</span> Playing
-            </>
-          ) : (
-            <>
-              <span>🔇</span> Play Music
-            </>
-          )}
-        </button>
+      {/* Music + Lyrics + Quality + Theme + Lights + Save picture + Record video */}
+      <div className={`fixed top-8 right-8 pointer-events-auto transition-opacity duration-500 z-[60] flex flex-col items-end gap-2 ${mode === TreeMode.GIFT && !isOpening ? 'opacity-0' : 'opacity-100'}`}>
+        <MusicControl />
+        <LyricsControl />
+        <QualityControl />
+        <ThemeControl />
+        <LightsControl />
+        <SnapshotControl />
+        <VideoExportControl />
       </div>
 
       <div className="text-center pt-8 min-h-[160px] pointer-events-none z-40">
@@ -370,7 +371,7 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
               className="text-6xl sm:text-7xl font-bold text-white drop-shadow-[0_0_20px_rgba(255,255,255,0.8)] tracking-widest uppercase" 
               style={{ fontFamily: '"Cinzel Decorative", serif' }}
             >
-              A6’s Christmas Tree
+              {title}
             </h1>
           </div>
         )}
@@ -379,6 +380,8 @@ const Overlay: React.FC<OverlayProps> = ({ mode, setMode }) => {
       <div className="pointer-events-auto pb-10">
       </div>
 
+      <LyricsCaption mode={mode} />
+
       <div className={`absolute bottom-4 right-4 text-white/60 text-xs font-sans text-right transition-opacity duration-500 ${mode === TreeMode.GIFT ? 'opacity-0' : 'opacity-100'}`}>
         Double-click to switch scenes ✨<br/>
         R3F • Tailwind • Gemini Design
@@ -0,0 +1,153 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { GreetingPhoto } from '../types';
+import { useGreeting } from './GreetingContext';
+import { createPhotoId, deletePhoto, downscaleImage, listPhotos, savePhotos, StoredPhoto } from './PhotoStore';
+import { forgetSampledImage } from './ImageSampler';
+
+// --- PHOTO GALLERY ---
+// Photos added on this device replace the config's photos on the Polaroids.
+// Without any, the greeting's own photos are shown. The character's selfies don't count as
+// added photos: they join whichever set is shown.
+
+export interface LocalPhoto extends StoredPhoto {
+  url: string; // Object URL for the stored blob
+}
+
+interface PhotoContextValue {
+  photos: GreetingPhoto[]; // What the Polaroids show
+  localPhotos: LocalPhoto[];
+  addFiles: (files: Iterable<File>) => Promise<void>;
+  addSelfie: (image: Blob) => Promise<void>;
+  removePhoto: (id: string) => void;
+  setCaption: (id: string, caption: string) => void;
+  movePhoto: (id: string, offset: -1 | 1) => void;
+}
+
+const PhotoContext = createContext<PhotoContextValue | null>(null);
+
+export const usePhotos = () => {
+  const photos = useContext(PhotoContext);
+  if (!photos) throw new Error('usePhotos must be used inside a PhotoProvider');
+  return photos;
+};
+
+// The oldest selfies make way beyond this, so clicking away at the character can't fill the storage
+const MAX_SELFIES = 12;
+
+const withUrl = (photo: StoredPhoto): LocalPhoto => ({ ...photo, url: URL.createObjectURL(photo.blob) });
+
+// The mosaic's samples of a photo go with its URL
+const revokeUrl = (url: string) => {
+  URL.revokeObjectURL(url);
+  forgetSampledImage(url);
+};
+
+const toFrame = ({ url, date, caption }: LocalPhoto): GreetingPhoto => ({ url, date, caption });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const getToday = (now = new Date()) => `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+
+// Storage failures are logged but never block the scene: the gallery then lasts for this visit only
+const persist = (task: Promise<void>) => {
+  task.catch((e) => console.error('Failed to update the photo gallery:', e));
+};
+
+export const PhotoProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const greeting = useGreeting();
+  const [localPhotos, setLocalPhotos] = useState<LocalPhoto[]>([]);
+  const photosRef = useRef(localPhotos);
+  photosRef.current = localPhotos;
+
+  useEffect(() => {
+    let cancelled = false;
+    listPhotos()
+      .then((stored) => {
+        if (!cancelled) setLocalPhotos((current) => [...stored.map(withUrl), ...current]);
+      })
+      .catch((e) => console.error('Failed to load saved photos:', e));
+    return () => {
+      cancelled = true;
+      photosRef.current.forEach((photo) => revokeUrl(photo.url));
+    };
+  }, []);
+
+  const addFiles = useCallback(async (files: Iterable<File>) => {
+    const added: LocalPhoto[] = [];
+    let order = photosRef.current.reduce((max, photo) => Math.max(max, photo.order), -1);
+
+    // One at a time: decoding several full-size camera photos at once can exhaust a phone's memory
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) continue;
+      try {
+        const blob = await downscaleImage(file);
+        added.push(withUrl({ id: createPhotoId(), name: file.name, blob, order: ++order }));
+      } catch (e) {
+        console.error(`Could not read ${file.name}, skipping it:`, e);
+      }
+    }
+    if (added.length === 0) return;
+
+    setLocalPhotos((current) => [...current, ...added]);
+    persist(savePhotos(added.map(({ url, ...photo }) => photo)));
+  }, []);
+
+  const addSelfie = useCallback(async (image: Blob) => {
+    const order = photosRef.current.reduce((max, photo) => Math.max(max, photo.order), -1) + 1;
+    const blob = await downscaleImage(image);
+    const date = getToday();
+    const stored: StoredPhoto = { id: createPhotoId(), name: `Selfie ${date}`, blob, order, selfie: true, date };
+    const selfies = photosRef.current.filter((photo) => photo.selfie);
+    const dropped = new Set(selfies.slice(0, Math.max(0, selfies.length + 1 - MAX_SELFIES)));
+
+    dropped.forEach((photo) => revokeUrl(photo.url));
+    setLocalPhotos((current) => [...current.filter((photo) => !dropped.has(photo)), withUrl(stored)]);
+    persist(Promise.all([...dropped].map((photo) => deletePhoto(photo.id))).then(() => savePhotos([stored])));
+  }, []);
+
+  const removePhoto = useCallback((id: string) => {
+    const photo = photosRef.current.find((p) => p.id === id);
+    if (!photo) return;
+    revokeUrl(photo.url);
+    setLocalPhotos((current) => current.filter((p) => p.id !== id));
+    persist(deletePhoto(id));
+  }, []);
+
+  // An empty caption removes it
+  const setCaption = useCallback((id: string, caption: string) => {
+    const photo = photosRef.current.find((p) => p.id === id);
+    const text = caption.trim() || undefined;
+    if (!photo || photo.caption === text) return;
+
+    const updated = { ...photo, caption: text };
+    setLocalPhotos((current) => current.map((p) => (p.id === id ? updated : p)));
+    const { url, ...stored } = updated;
+    persist(savePhotos([stored]));
+  }, []);
+
+  const movePhoto = useCallback((id: string, offset: -1 | 1) => {
+    const current = photosRef.current;
+    const from = current.findIndex((p) => p.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= current.length) return;
+
+    const next = [...current];
+    [next[from], next[to]] = [next[to], next[from]];
+    const reordered = next.map((photo, order) => ({ ...photo, order }));
+    setLocalPhotos(reordered);
+    persist(savePhotos(reordered.map(({ url, ...photo }) => photo)));
+  }, []);
+
+  const value = useMemo(() => ({
+    photos: localPhotos.some((photo) => !photo.selfie)
+      ? localPhotos.map(toFrame)
+      : [...greeting.photos, ...localPhotos.map(toFrame)],
+    localPhotos,
+    addFiles,
+    addSelfie,
+    removePhoto,
+    setCaption,
+    movePhoto,
+  }), [localPhotos, greeting.photos, addFiles, addSelfie, removePhoto, setCaption, movePhoto]);
+
+  return <PhotoContext.Provider value={value}>{children}</PhotoContext.Provider>;
+};
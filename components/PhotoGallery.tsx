@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { usePhotos } from './PhotoContext';
+
+interface PhotoGalleryProps {
+  hidden?: boolean;
+}
+
+// Bottom-right gallery: add photos from disk (picker or drop anywhere), caption, reorder and remove them
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ hidden }) => {
+  const { localPhotos, addFiles, removePhoto, setCaption, movePhoto } = usePhotos();
+  const [open, setOpen] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const add = async (files: Iterable<File>) => {
+    setBusy(true);
+    await addFiles(files);
+    setBusy(false);
+  };
+
+  // Dropping image files anywhere on the page adds them
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => !!e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files');
+
+    const onDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setDragging(true);
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (e.relatedTarget === null) setDragging(false);
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setDragging(false);
+      setOpen(true);
+      add(Array.from(e.dataTransfer!.files));
+    };
+
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, [addFiles]);
+
+  return (
+    <>
+      {dragging && (
+        <div className="fixed inset-4 z-[70] rounded-3xl border-4 border-dashed border-white/80 bg-[color-mix(in_srgb,var(--theme-accent-light)_30%,transparent)] backdrop-blur-sm flex items-center justify-center pointer-events-none">
+          <p className="text-white text-3xl font-bold drop-shadow-lg">Drop photos for the tree</p>
+        </div>
+      )}
+
+      <div className={`fixed bottom-16 right-4 z-[60] flex flex-col items-end gap-2 transition-opacity duration-500 ${hidden ? 'opacity-0 pointer-events-none' : 'opacity-100 pointer-events-auto'}`}>
+        {open && (
+          <div className="w-72 max-h-[50vh] overflow-y-auto bg-white/30 backdrop-blur-md border border-white/40 rounded-2xl shadow-lg p-3">
+            {localPhotos.length === 0 ? (
+              <p className="text-[var(--theme-accent-dark)] text-sm text-center py-4">
+                No photos yet. Add some or drop them onto the page; until then the greeting's own photos are shown.
+              </p>
+            ) : (
+              <ul className="grid grid-cols-3 gap-2">
+                {localPhotos.map((photo, i) => (
+                  <li key={photo.id} className="relative group rounded-lg overflow-hidden bg-white shadow">
+                    <img src={photo.url} alt={photo.name} className="w-full aspect-square object-cover" />
+                    {/* Saved on Enter or when the field loses focus */}
+                    <input
+                      defaultValue={photo.caption ?? ''}
+                      placeholder="Caption"
+                      maxLength={40}
+                      onBlur={(e) => setCaption(photo.id, e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      className="w-full px-1 py-0.5 text-xs text-[var(--theme-accent-dark)] bg-white outline-none placeholder:text-[var(--theme-accent-light)]"
+                      aria-label={`Caption for ${photo.name}`}
+                    />
+                    <div className="absolute inset-x-0 top-0 aspect-square flex items-end justify-between p-1 bg-black/0 group-hover:bg-black/30 transition-colors">
+                      <button
+                        onClick={() => movePhoto(photo.id, -1)}
+                        disabled={i === 0}
+                        className="text-white text-xs font-bold px-1 rounded bg-black/40 disabled:opacity-30"
+                        aria-label="Move earlier"
+                      >
+                        ◀
+                      </button>
+                      <button
+                        onClick={() => removePhoto(photo.id)}
+                        className="text-white text-xs font-bold px-1 rounded bg-[var(--theme-message)]"
+                        aria-label="Remove photo"
+                      >
+                        ✕
+                      </button>
+                      <button
+                        onClick={() => movePhoto(photo.id, 1)}
+                        disabled={i === localPhotos.length - 1}
+                        className="text-white text-xs font-bold px-1 rounded bg-black/40 disabled:opacity-30"
+                        aria-label="Move later"
+                      >
+                        ▶
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button
+              onClick={() => inputRef.current?.click()}
+              disabled={busy}
+              className="mt-3 w-full bg-white/60 hover:bg-white text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold py-1 rounded-full transition-colors duration-300 disabled:opacity-60"
+            >
+              {busy ? 'Adding…' : '+ Add photos'}
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files) add(Array.from(e.target.files));
+                e.target.value = '';
+              }}
+            />
+          </div>
+        )}
+        <button
+          onClick={() => setOpen((o) => !o)}
+          className="bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold py-2 px-4 rounded-full transition-all duration-300 shadow-lg hover:shadow-xl flex items-center gap-2"
+        >
+          <span>📷</span> Photos{localPhotos.length > 0 ? ` (${localPhotos.length})` : ''}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default PhotoGallery;
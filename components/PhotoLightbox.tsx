@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { GreetingPhoto } from '../types';
+import { formatDateStamp } from './CaptionTexture';
+
+interface PhotoLightboxProps {
+  photo?: GreetingPhoto; // Focused photo; undefined hides the lightbox
+  index: number;
+  count: number;
+  onNavigate: (offset: -1 | 1) => void;
+  onMosaic: () => void; // Rebuild the tree out of this photo
+  onClose: () => void;
+}
+
+// Controls over a focused Polaroid: the camera frames the photo, this adds caption and navigation
+const PhotoLightbox: React.FC<PhotoLightboxProps> = ({ photo, index, count, onNavigate, onMosaic, onClose }) => {
+  const open = !!photo;
+
+  useEffect(() => {
+    if (!open) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') onNavigate(-1);
+      else if (e.key === 'ArrowRight') onNavigate(1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [open, onNavigate, onClose]);
+
+  if (!photo) return null;
+
+  const navButton = 'pointer-events-auto bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold w-12 h-12 rounded-full shadow-lg transition-colors duration-300';
+
+  return (
+    <div role="dialog" aria-label="Photo" className="fixed inset-0 z-[55] pointer-events-none flex flex-col justify-between">
+      <div className="flex justify-start gap-3 p-8">
+        <button onClick={onMosaic} className={navButton} aria-label="Show as particle mosaic" title="Particle mosaic">
+          ✨
+        </button>
+        <button onClick={onClose} className={navButton} aria-label="Close photo">
+          ✕
+        </button>
+      </div>
+
+      {count > 1 && (
+        <div className="flex justify-between px-4 sm:px-8">
+          <button onClick={() => onNavigate(-1)} className={navButton} aria-label="Previous photo">
+            ◀
+          </button>
+          <button onClick={() => onNavigate(1)} className={navButton} aria-label="Next photo">
+            ▶
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-center pb-8">
+        <div className="bg-white/30 backdrop-blur-md border border-white/40 rounded-full px-6 py-2 shadow-lg text-center">
+          {photo.caption && (
+            <p className="text-2xl text-[var(--theme-accent-dark)]" style={{ fontFamily: '"Dancing Script", cursive' }}>
+              {photo.caption}
+            </p>
+          )}
+          <p className="text-white/90 text-xs tabular-nums">
+            {index + 1} / {count}
+            {photo.date ? ` · ${formatDateStamp(photo.date)}` : ''}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoLightbox;
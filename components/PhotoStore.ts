@@ -0,0 +1,46 @@
+import { createLocalId, deleteRecord, listRecords, saveRecords } from './LocalStore';
+
+// --- PHOTO STORE ---
+// Photos picked from disk are downscaled in the browser and kept in IndexedDB,
+// so the gallery survives reloads without uploading anything anywhere.
+
+export interface StoredPhoto {
+  id: string;
+  name: string;
+  blob: Blob;
+  order: number;
+  selfie?: boolean; // Taken by the character in the scene
+  date?: string; // YYYY-MM-DD, stamped on the Polaroid
+  caption?: string; // Written under the photo, like a greeting photo's caption
+}
+
+// Longest edge after downscaling; a Polaroid never needs more than this
+export const MAX_PHOTO_SIZE = 1024;
+
+export const listPhotos = () => listRecords<StoredPhoto>('photos');
+
+export const savePhotos = (photos: StoredPhoto[]) => saveRecords('photos', photos);
+
+export const deletePhoto = (id: string) => deleteRecord('photos', id);
+
+// Resize so the longest edge is at most `maxSize`, re-encoded as JPEG
+export const downscaleImage = async (file: Blob, maxSize = MAX_PHOTO_SIZE): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const ratio = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * ratio);
+  const height = Math.round(bitmap.height * ratio);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Image encoding failed'))), 'image/jpeg', 0.85);
+  });
+};
+
+export const createPhotoId = createLocalId;
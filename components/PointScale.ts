@@ -0,0 +1,6 @@
+// --- POINT SIZE SCALE ---
+// Particle shaders size their points in pixels, so a frame rendered at a higher resolution
+// than the screen would shrink them. Every particle material shares this uniform; captures
+// raise it for the frames they render so the picture keeps the look of the screen.
+
+export const pointScaleUniform = { value: 1 };
@@ -1,100 +1,160 @@
 
-import React, { useMemo, useRef, useState } from 'react';
+import React, { Suspense, useEffect, useMemo, useRef, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Image } from '@react-three/drei';
 import * as THREE from 'three';
 import { TreeMode } from '../types';
 import { getRandomSpherePoint } from './MathUtils';
+import { useGreeting } from './GreetingContext';
+import { usePhotos } from './PhotoContext';
+import { getLayoutWeights, useTransitionDirector } from './TransitionDirector';
+import { createRng, Rng } from './Random';
+import { CAPTION_PLANE, useCaptionTexture } from './CaptionTexture';
+import { clearModeBounds, getLayoutBounds, setModeBounds } from './CameraFit';
 
-interface PolaroidSystemProps {
-  mode: TreeMode;
+// Where the focused frame is this frame, written by the frame itself so the camera can follow it
+export interface PolaroidFocus {
+  ready: boolean;
+  position: THREE.Vector3; // World-space centre of the frame
+  normal: THREE.Vector3; // Direction the photo faces
+  scale: number; // World scale of the frame (1 = 1.2 x 1.5 units)
 }
 
-// User provided Polaroid Image
-const PHOTO_URL = "https://i.imgur.com/SlozniS.jpg";
+export const createPolaroidFocus = (): PolaroidFocus => ({
+  ready: false,
+  position: new THREE.Vector3(),
+  normal: new THREE.Vector3(),
+  scale: 1,
+});
+
+// Frame size in world units at scale 1
+export const POLAROID_SIZE: [number, number] = [1.2, 1.5];
+
+interface PolaroidSystemProps {
+  focusedIndex?: number;
+  onFocus?: (index: number) => void;
+  focus?: PolaroidFocus; // Filled in every frame for the focused Polaroid
+}
 
-// Reduce count to 12
-const IMAGES = Array(12).fill(PHOTO_URL);
+// One frame per photo, capped so a big gallery can't bury the tree
+export const MAX_POLAROIDS = 24;
 
 // Helper to get random Euler rotation
-const getRandomRotation = (): [number, number, number] => {
-    return [Math.random() * Math.PI * 2, Math.random() * Math.PI * 2, Math.random() * Math.PI * 2];
+const getRandomRotation = (rng: Rng): [number, number, number] => {
+    return [rng() * Math.PI * 2, rng() * Math.PI * 2, rng() * Math.PI * 2];
+};
+
+// --- PHOTO CAROUSEL (PHOTOS mode) ---
+// Frames stand on a ring facing outwards and the ring turns slowly, so each photo passes the camera.
+// Big galleries split into two staggered rows.
+
+const CAROUSEL_CENTER_Y = 7; // Scene group space; world y = 2, where the camera looks
+const CAROUSEL_SPACING = 2.8; // Arc length between neighbouring frames
+const CAROUSEL_SPEED = 0.08; // Radians per second
+const CAROUSEL_SCALE = 1.8;
+const UP = new THREE.Vector3(0, 1, 0);
+const SCATTER_CENTER = new THREE.Vector3(0, 5, 0); // Scattered frames face this point
+
+const getCarouselPose = (index: number, count: number, time: number, position: THREE.Vector3, quaternion: THREE.Quaternion) => {
+  const rows = count > 12 ? 2 : 1;
+  const perRow = Math.ceil(count / rows);
+  const row = index % rows;
+  const column = Math.floor(index / rows);
+
+  const radius = Math.max(7, (perRow * CAROUSEL_SPACING) / (Math.PI * 2));
+  const angle = ((column + row * 0.5) / perRow) * Math.PI * 2 + time * CAROUSEL_SPEED;
+  const y = CAROUSEL_CENTER_Y + (rows > 1 ? (row - 0.5) * 3.4 : 0);
+
+  position.set(Math.sin(angle) * radius, y, Math.cos(angle) * radius);
+  quaternion.setFromAxisAngle(UP, angle);
 };
 
 const Polaroid: React.FC<{ 
   url: string; 
+  caption?: string;
+  date?: string;
   chaosPos: [number, number, number];
   chaosRot: [number, number, number];
   treePos: [number, number, number];
   treeRot: [number, number, number];
-  scaleOffset: number;
-  mode: TreeMode;
-}> = ({ url, chaosPos, chaosRot, treePos, treeRot, scaleOffset, mode }) => {
+  floatSpeed: number;
+  floatOffset: number;
+  wallIndex: number;
+  wallCount: number;
+  onSelect?: () => void;
+  focus?: PolaroidFocus; // Only passed to the focused frame
+}> = ({ url, caption, date, chaosPos, chaosRot, treePos, treeRot, floatSpeed, floatOffset, wallIndex, wallCount, onSelect, focus }) => {
   const groupRef = useRef<THREE.Group>(null);
   const [hovered, setHover] = useState(false);
-  
-  // Random floating parameters
-  const floatSpeed = useRef(Math.random() * 0.5 + 0.2);
-  const floatOffset = useRef(Math.random() * Math.PI * 2);
+  const director = useTransitionDirector();
+  const captionTexture = useCaptionTexture(caption, date);
+
+  // Scratch objects reused every frame
+  const temp = useMemo(() => ({
+    chaosQ: new THREE.Quaternion(),
+    treeQ: new THREE.Quaternion(),
+    treeEuler: new THREE.Euler(...treeRot),
+    wobbleQ: new THREE.Quaternion(),
+    wobbleEuler: new THREE.Euler(),
+    wallQ: new THREE.Quaternion(),
+    wallVec: new THREE.Vector3(),
+    lookMat: new THREE.Matrix4(),
+    worldQ: new THREE.Quaternion(),
+    worldScale: new THREE.Vector3(),
+    chaosVec: new THREE.Vector3(...chaosPos),
+    treeVec: new THREE.Vector3(...treePos),
+  }), [chaosPos, treePos, treeRot]);
+  const hoverScale = useRef(1);
 
-  useFrame((state, delta) => {
+  useFrame((state) => {
     if (!groupRef.current) return;
     const t = state.clock.elapsedTime;
-    
-    // Determine Target Position and Rotation based on Mode
-    let targetPos: THREE.Vector3;
-    let targetRot: THREE.Euler;
-    
-    if (mode === TreeMode.FORMED) {
-        targetPos = new THREE.Vector3(...treePos);
-        targetRot = new THREE.Euler(...treeRot);
-    } else {
-        // Default to Chaos position
-        targetPos = new THREE.Vector3(...chaosPos);
-        targetRot = new THREE.Euler(...chaosRot);
-    }
+    const w = getLayoutWeights(director);
+    // Text mode keeps the frames at their scattered spots while they shrink away
+    const total = Math.max(w.chaos + w.formed + w.text + w.photos + w.mosaic, 0.0001);
+    const formedShare = w.formed / total;
+    const photoShare = w.photos / total;
+    const treeShare = formedShare / Math.max(1 - photoShare, 0.0001);
 
-    // 1. Floating Animation
-    const floatY = Math.sin(t * floatSpeed.current + floatOffset.current) * 0.1;
-    targetPos.y += floatY;
+    // 1. Position: blend of the scattered, tree and carousel layouts, plus floating
+    getCarouselPose(wallIndex, wallCount, t, temp.wallVec, temp.wallQ);
+    groupRef.current.position.lerpVectors(temp.chaosVec, temp.treeVec, treeShare);
+    groupRef.current.position.lerp(temp.wallVec, photoShare);
+    groupRef.current.position.y += Math.sin(t * floatSpeed + floatOffset) * 0.1;
 
-    // 2. Interpolate Position
-    const lerpFactor = delta * 2.0;
-    groupRef.current.position.lerp(targetPos, lerpFactor);
+    // 2. Rotation
+    // "Position the Polaroid camera directly facing the scene"
+    // Scattered: make the photo face the center (0, 5, 0), with a very slight organic wobble
+    temp.lookMat.lookAt(groupRef.current.position, SCATTER_CENTER, UP);
+    temp.chaosQ.setFromRotationMatrix(temp.lookMat);
+    temp.chaosQ.multiply(temp.wobbleQ.setFromEuler(temp.wobbleEuler.set(
+        Math.sin(t * 0.3) * 0.1,
+        Math.cos(t * 0.4) * 0.1,
+        0
+    )));
 
-    // 3. Interpolate Rotation
-    const currentQ = groupRef.current.quaternion;
-    let targetQ = new THREE.Quaternion().setFromEuler(new THREE.Euler(...targetRot));
-    
-    if (mode === TreeMode.CHAOS) {
-         // "Position the Polaroid camera directly facing the scene"
-         // Make the photo face the center (0, 5, 0)
-         const center = new THREE.Vector3(0, 5, 0);
-         const lookMat = new THREE.Matrix4();
-         lookMat.lookAt(groupRef.current.position, center, new THREE.Vector3(0, 1, 0));
-         targetQ.setFromRotationMatrix(lookMat);
-         
-         // Add a very slight organic wobble
-         const wobble = new THREE.Quaternion().setFromEuler(new THREE.Euler(
-             Math.sin(t * 0.3) * 0.1,
-             Math.cos(t * 0.4) * 0.1,
-             0
-         ));
-         targetQ.multiply(wobble);
-    } else if (mode === TreeMode.FORMED && !hovered) {
-         const sway = Math.sin(t * 0.5 + floatOffset.current) * 0.05;
-         const swayQ = new THREE.Quaternion().setFromEuler(new THREE.Euler(0, 0, sway));
-         targetQ.multiply(swayQ);
+    // On the tree: hang along the cone and sway unless hovered
+    temp.treeQ.setFromEuler(temp.treeEuler);
+    if (!hovered && !focus) {
+        const sway = Math.sin(t * 0.5 + floatOffset) * 0.05;
+        temp.treeQ.multiply(temp.wobbleQ.setFromEuler(temp.wobbleEuler.set(0, 0, sway)));
     }
-    
-    groupRef.current.quaternion.slerp(targetQ, lerpFactor);
 
-    // 4. Scale/Visibility Logic
-    const isVisible = (mode === TreeMode.CHAOS || mode === TreeMode.FORMED);
-    let targetScale = isVisible ? 1 : 0;
-    if (isVisible && hovered) targetScale *= 1.3;
+    groupRef.current.quaternion.slerpQuaternions(temp.chaosQ, temp.treeQ, treeShare);
+    groupRef.current.quaternion.slerp(temp.wallQ, photoShare);
 
-    groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1);
+    // 3. Scale/Visibility Logic: visible in CHAOS and FORMED, enlarged in PHOTOS, hidden in TEXT and MOSAIC
+    hoverScale.current = THREE.MathUtils.lerp(hoverScale.current, hovered && !focus ? 1.3 : 1, 0.1);
+    groupRef.current.scale.setScalar((w.chaos + w.formed + w.photos * CAROUSEL_SCALE) * hoverScale.current);
+
+    // 4. Report where we are to the camera
+    if (focus) {
+        groupRef.current.updateWorldMatrix(true, false);
+        groupRef.current.getWorldPosition(focus.position);
+        focus.normal.set(0, 0, 1).applyQuaternion(groupRef.current.getWorldQuaternion(temp.worldQ));
+        focus.scale = groupRef.current.getWorldScale(temp.worldScale).x;
+        focus.ready = true;
+    }
   });
 
   return (
@@ -104,6 +164,7 @@ const Polaroid: React.FC<{
         rotation={chaosRot}
         onPointerOver={(e) => { e.stopPropagation(); setHover(true); document.body.style.cursor = 'pointer'; }}
         onPointerOut={() => { setHover(false); document.body.style.cursor = 'auto'; }}
+        onClick={(e) => { e.stopPropagation(); onSelect?.(); }}
     >
       {/* White Frame */}
       <mesh position={[0, 0, -0.01]}>
@@ -111,64 +172,105 @@ const Polaroid: React.FC<{
         <meshStandardMaterial color="#ffffff" roughness={0.4} />
       </mesh>
       
-      {/* Photo Image */}
-      <Image 
-        url={url} 
-        position={[0, 0.08, 0.02]}
-        scale={[1, 1]}
-        transparent
-      />
+      {/* Photo Image: suspends on its own, so a newly added photo never blanks the scene */}
+      <Suspense fallback={null}>
+        <Image 
+          url={url} 
+          position={[0, 0.08, 0.02]}
+          scale={[1, 1]}
+          transparent
+        />
+      </Suspense>
       
-      {/* Handwritten Text Placeholder */}
-      <mesh position={[0, -0.55, 0.02]}>
-          <planeGeometry args={[0.8, 0.02]} />
-          <meshBasicMaterial color="#ccc" transparent opacity={0.5} />
-      </mesh>
+      {/* Handwritten Caption */}
+      {captionTexture && (
+        <mesh position={[0, -0.585, 0.02]}>
+            <planeGeometry args={CAPTION_PLANE} />
+            <meshBasicMaterial map={captionTexture} transparent toneMapped={false} />
+        </mesh>
+      )}
     </group>
   );
 };
 
-const PolaroidSystem: React.FC<PolaroidSystemProps> = ({ mode }) => {
+const PolaroidSystem: React.FC<PolaroidSystemProps> = ({ focusedIndex, onFocus, focus }) => {
+  const { seed } = useGreeting();
+  const { photos } = usePhotos();
+
   const polaroids = useMemo(() => {
     const treeHeight = 15;
     const treeBase = 5.5;
     
-    return IMAGES.map((url, i) => {
+    // Each frame draws the same number of values from the stream, so adding a photo
+    // never moves the frames that were already there
+    const frames = photos.slice(0, MAX_POLAROIDS);
+
+    const rng = createRng(`${seed}:polaroids`);
+
+    return frames.map(({ url, caption, date }) => {
       const yMin = 1.5;
       const yMax = 12.5;
-      const y = yMin + Math.random() * (yMax - yMin);
+      const y = yMin + rng() * (yMax - yMin);
       const radiusAtHeight = (treeBase + 1.2) * (1 - (y / treeHeight));
-      const angle = Math.random() * Math.PI * 2;
+      const angle = rng() * Math.PI * 2;
       const tx = Math.cos(angle) * radiusAtHeight;
       const tz = Math.sin(angle) * radiusAtHeight;
-      const rotY = -angle + Math.PI / 2 + (Math.random() - 0.5) * 0.5;
+      const rotY = -angle + Math.PI / 2 + (rng() - 0.5) * 0.5;
       const coneTilt = -Math.atan(treeBase / treeHeight);
-      const rotX = coneTilt + (Math.random() - 0.5) * 0.6;
-      const rotZ = (Math.random() - 0.5) * 0.6;
+      const rotX = coneTilt + (rng() - 0.5) * 0.6;
+      const rotZ = (rng() - 0.5) * 0.6;
       
       const treePos: [number, number, number] = [tx, y, tz];
       const treeRot: [number, number, number] = [rotX, rotY, rotZ];
 
-      const chaosPos = getRandomSpherePoint(20); 
+      const chaosPos = getRandomSpherePoint(20, rng); 
       chaosPos[1] = Math.max(chaosPos[1], 1); 
-      const chaosRot = getRandomRotation();
+      const chaosRot = getRandomRotation(rng);
+
+      // Random floating parameters
+      const floatSpeed = rng() * 0.5 + 0.2;
+      const floatOffset = rng() * Math.PI * 2;
+
+      rng(); // Once a scale offset; still drawn so existing greetings keep their layout
 
-      return { url, chaosPos, chaosRot, treePos, treeRot, scaleOffset: Math.random() };
+      return { url, caption, date, chaosPos, chaosRot, treePos, treeRot, floatSpeed, floatOffset };
     });
-  }, []);
+  }, [photos, seed]);
+
+  // The carousel grows with the gallery; the camera fits its shot to the ring as it turns
+  const groupRef = useRef<THREE.Group>(null);
+  const count = polaroids.length;
+  useEffect(() => {
+    if (!groupRef.current) return;
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const ring = Array.from({ length: count }, (_, i) => {
+      getCarouselPose(i, count, 0, position, quaternion);
+      return position.toArray();
+    }).flat();
+    const margin = (Math.hypot(...POLAROID_SIZE) / 2) * CAROUSEL_SCALE;
+    setModeBounds(TreeMode.PHOTOS, 'polaroids', getLayoutBounds(ring, groupRef.current, { spin: true, margin }));
+  }, [count]);
+  useEffect(() => () => clearModeBounds('polaroids'), []);
 
   return (
-    <group>
+    <group ref={groupRef}>
       {polaroids.map((data, i) => (
         <Polaroid 
           key={i}
-          mode={mode}
           url={data.url}
+          caption={data.caption}
+          date={data.date}
           chaosPos={data.chaosPos}
           chaosRot={data.chaosRot}
           treePos={data.treePos}
           treeRot={data.treeRot}
-          scaleOffset={data.scaleOffset}
+          floatSpeed={data.floatSpeed}
+          floatOffset={data.floatOffset}
+          wallIndex={i}
+          wallCount={polaroids.length}
+          onSelect={onFocus && (() => onFocus(i))}
+          focus={i === focusedIndex ? focus : undefined}
         />
       ))}
     </group>
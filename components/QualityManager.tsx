@@ -0,0 +1,172 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { PerformanceMonitor } from '@react-three/drei';
+
+// --- QUALITY MANAGER ---
+// One place that decides how much work the scene does per frame. In `auto` the tier
+// follows the measured frame rate, so older phones drop to a lighter scene on their own.
+
+export type QualityTier = 'low' | 'medium' | 'high';
+export type QualitySetting = QualityTier | 'auto';
+
+export interface QualityProfile {
+  foliageCount: number;
+  starCount: number;
+  stardustCount: number;
+  snowCount: number;
+  dpr: [number, number];
+  postProcessing: boolean; // Bloom + vignette composer
+  mipmapBlur: boolean; // Wider, more expensive bloom
+  physicalMaterials: boolean; // Clearcoat / transmission instead of standard PBR
+}
+
+export const QUALITY_PROFILES: Record<QualityTier, QualityProfile> = {
+  low: {
+    foliageCount: 20000,
+    starCount: 1500,
+    stardustCount: 600,
+    snowCount: 150,
+    dpr: [0.75, 1],
+    postProcessing: false,
+    mipmapBlur: false,
+    physicalMaterials: false,
+  },
+  medium: {
+    foliageCount: 40000,
+    starCount: 3000,
+    stardustCount: 1200,
+    snowCount: 250,
+    dpr: [1, 1.5],
+    postProcessing: true,
+    mipmapBlur: false,
+    physicalMaterials: false,
+  },
+  high: {
+    foliageCount: 65000,
+    starCount: 5000,
+    stardustCount: 2000,
+    snowCount: 400,
+    dpr: [1, 2],
+    postProcessing: true,
+    mipmapBlur: true,
+    physicalMaterials: true,
+  },
+};
+
+const TIERS: QualityTier[] = ['low', 'medium', 'high'];
+export const QUALITY_SETTINGS: QualitySetting[] = ['auto', ...TIERS];
+
+const STORAGE_KEY = 'a6-quality';
+
+const isQualitySetting = (value: unknown): value is QualitySetting =>
+  QUALITY_SETTINGS.includes(value as QualitySetting);
+
+// `?quality=low` wins over the stored choice, which wins over auto
+const getInitialSetting = (): QualitySetting => {
+  const fromUrl = new URLSearchParams(window.location.search).get('quality');
+  if (isQualitySetting(fromUrl)) return fromUrl;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isQualitySetting(stored)) return stored;
+  } catch {
+    // Storage can be blocked (private mode); auto is a fine default
+  }
+  return 'auto';
+};
+
+// A first guess before any frames have been measured, so weak devices don't start on high
+const guessTier = (): QualityTier => {
+  const cores = navigator.hardwareConcurrency ?? 8;
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 8;
+  const smallScreen = Math.min(window.screen.width, window.screen.height) < 500;
+  if (cores <= 2 || memory <= 2) return 'low';
+  if (cores <= 4 || memory <= 4 || smallScreen) return 'medium';
+  return 'high';
+};
+
+interface QualityContextValue {
+  setting: QualitySetting;
+  tier: QualityTier;
+  profile: QualityProfile;
+  setSetting: (setting: QualitySetting) => void;
+  stepTier: (direction: 1 | -1) => void; // Used by the monitor while in auto
+}
+
+const QualityContext = createContext<QualityContextValue | null>(null);
+
+export const useQuality = () => {
+  const quality = useContext(QualityContext);
+  if (!quality) throw new Error('useQuality must be used inside a QualityProvider');
+  return quality;
+};
+
+export const QualityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [setting, setSettingState] = useState<QualitySetting>(getInitialSetting);
+  const [autoTier, setAutoTier] = useState<QualityTier>(guessTier);
+  const tier = setting === 'auto' ? autoTier : setting;
+
+  const setSetting = useCallback((next: QualitySetting) => {
+    setSettingState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Not persisted, but still applied for this visit
+    }
+  }, []);
+
+  const stepTier = useCallback((direction: 1 | -1) => {
+    setAutoTier((current) => {
+      const index = Math.min(Math.max(TIERS.indexOf(current) + direction, 0), TIERS.length - 1);
+      return TIERS[index];
+    });
+  }, []);
+
+  const value = useMemo(
+    () => ({ setting, tier, profile: QUALITY_PROFILES[tier], setSetting, stepTier }),
+    [setting, tier, setSetting, stepTier]
+  );
+
+  return <QualityContext.Provider value={value}>{children}</QualityContext.Provider>;
+};
+
+// Lives inside the Canvas: watches the frame rate and nudges the auto tier up or down.
+// After a few flip-flops between tiers the monitor gives up and the current tier sticks.
+export const AdaptiveQuality: React.FC = () => {
+  const { setting, stepTier } = useQuality();
+  const [settled, setSettled] = useState(false);
+
+  // A manual choice (or switching back to auto) starts a fresh measurement
+  useEffect(() => setSettled(false), [setting]);
+
+  if (setting !== 'auto' || settled) return null;
+
+  return (
+    <PerformanceMonitor
+      flipflops={3}
+      onDecline={() => stepTier(-1)}
+      onIncline={() => stepTier(1)}
+      onFallback={() => setSettled(true)}
+    />
+  );
+};
+
+// Compact picker shown next to the music button
+export const QualityControl: React.FC = () => {
+  const { setting, tier, setSetting } = useQuality();
+
+  return (
+    <label className="bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] font-bold py-1 px-3 rounded-full shadow-lg flex items-center gap-2 text-sm">
+      Quality
+      <select
+        value={setting}
+        onChange={(e) => setSetting(e.target.value as QualitySetting)}
+        className="bg-transparent outline-none cursor-pointer hover:text-[var(--theme-message)]"
+      >
+        {QUALITY_SETTINGS.map((option) => (
+          <option key={option} value={option}>
+            {option === 'auto' ? `Auto (${tier})` : option[0].toUpperCase() + option.slice(1)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,28 @@
+// --- SEEDED RANDOMNESS ---
+// Every generator takes an Rng so a greeting renders the same layout on every load.
+// Streams are keyed by label (e.g. `${seed}:gifts`): changing one ornament count
+// never reshuffles the rest of the scene.
+
+export type Rng = () => number;
+
+// FNV-1a: turns any seed (number or string) into a 32-bit integer
+export const hashSeed = (seed: string | number) => {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: tiny, fast and good enough for scene layout
+export const createRng = (seed: string | number): Rng => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { ShowPlayer } from './ShowPlayer';
+
+interface ShowControlsProps {
+  player: ShowPlayer;
+  hidden?: boolean;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// Play/pause and scrub bar for the scripted show
+const ShowControls: React.FC<ShowControlsProps> = ({ player, hidden }) => {
+  const [time, setTime] = useState(player.time);
+  const [playing, setPlaying] = useState(player.playing);
+
+  useEffect(() => {
+    setTime(player.time);
+    setPlaying(player.playing);
+    const offTick = player.on('tick', setTime);
+    const offPlay = player.on('playStateChange', setPlaying);
+    return () => {
+      offTick();
+      offPlay();
+    };
+  }, [player]);
+
+  if (player.duration <= 0) return null;
+
+  return (
+    <div className={`fixed bottom-4 left-4 pointer-events-auto z-[60] transition-opacity duration-500 ${hidden && !playing ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
+      <div className="bg-white/20 backdrop-blur-md border border-white/30 rounded-full py-2 px-4 shadow-lg flex items-center gap-3">
+        <button
+          onClick={() => player.toggle()}
+          className="text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold transition-colors duration-300 flex items-center gap-2"
+        >
+          <span>{playing ? '⏸' : '▶'}</span> Show
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={player.duration}
+          step={0.1}
+          value={time}
+          onChange={(e) => player.seek(Number(e.target.value))}
+          className="w-32 sm:w-48 accent-[var(--theme-message)]"
+        />
+        <span className="text-white/80 text-xs tabular-nums">
+          {formatTime(time)} / {formatTime(player.duration)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ShowControls;
@@ -0,0 +1,126 @@
+import { useEffect, useMemo } from 'react';
+import { MusicCue, ShowStep, ShowTimeline, TreeMode } from '../types';
+import { EventEmitter } from './EventEmitter';
+
+// --- SHOW PLAYER ---
+// Plays a ShowTimeline on its own clock, independent of the render loop,
+// and announces each step as it is reached.
+
+export interface ShowEvents {
+  step: [step: ShowStep, index: number]; // A new step became active (also fires on seek)
+  tick: [time: number]; // Playback position changed
+  playStateChange: [playing: boolean];
+  end: []; // Reached the end of a non-looping timeline
+}
+
+// Timelines are plain JSON, so a step's mode and music cue can't be trusted to exist
+export const isTreeMode = (value: unknown): value is TreeMode => Object.values(TreeMode).some((mode) => mode === value);
+
+export const isMusicCue = (value: unknown): value is MusicCue =>
+  value === 'play' || value === 'pause' || Number.isInteger(value);
+
+export class ShowPlayer extends EventEmitter<ShowEvents> {
+  time = 0;
+  playing = false;
+  stepIndex = -1;
+
+  private timeline: ShowTimeline;
+  private frameId: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  constructor(timeline: ShowTimeline) {
+    super();
+    this.timeline = timeline;
+  }
+
+  get duration() {
+    return this.timeline.steps.reduce((sum, step) => sum + step.duration, 0);
+  }
+
+  get loop() {
+    return this.timeline.loop ?? false;
+  }
+
+  // Index of the step active at `time` (seconds)
+  getStepIndex(time: number) {
+    let elapsed = 0;
+    for (let i = 0; i < this.timeline.steps.length; i++) {
+      elapsed += this.timeline.steps[i].duration;
+      if (time < elapsed) return i;
+    }
+    return this.timeline.steps.length - 1;
+  }
+
+  play() {
+    if (this.playing || this.duration <= 0) return;
+    if (this.time >= this.duration) this.time = 0;
+
+    this.playing = true;
+    this.emit('playStateChange', true);
+    this.applyStep(this.getStepIndex(this.time), this.stepIndex === -1);
+    this.lastTimestamp = null;
+    this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.playing = false;
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.emit('playStateChange', false);
+  }
+
+  toggle() {
+    if (this.playing) this.pause();
+    else this.play();
+  }
+
+  // Scrubbing always re-applies the step under the playhead, so the scene matches it
+  seek(time: number) {
+    this.time = Math.min(Math.max(time, 0), this.duration);
+    this.applyStep(this.getStepIndex(this.time), true);
+    this.emit('tick', this.time);
+  }
+
+  dispose() {
+    this.pause();
+  }
+
+  private applyStep(index: number, force = false) {
+    if (index === this.stepIndex && !force) return;
+    const step = this.timeline.steps[index];
+    if (!step) return;
+    this.stepIndex = index;
+    this.emit('step', step, index);
+  }
+
+  private tick = (timestamp: number) => {
+    const delta = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+    this.time += delta;
+
+    if (this.time >= this.duration) {
+      if (this.loop) {
+        this.time %= this.duration;
+        this.applyStep(this.getStepIndex(this.time), true);
+      } else {
+        this.time = this.duration;
+        this.emit('tick', this.time);
+        this.pause();
+        this.emit('end');
+        return;
+      }
+    }
+
+    this.applyStep(this.getStepIndex(this.time));
+    this.emit('tick', this.time);
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+}
+
+// One player per timeline, disposed when the timeline changes or the component unmounts
+export const useShowPlayer = (timeline: ShowTimeline) => {
+  const player = useMemo(() => new ShowPlayer(timeline), [timeline]);
+  useEffect(() => () => player.dispose(), [player]);
+  return player;
+};
@@ -0,0 +1,346 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import { EffectComposer } from '@react-three/postprocessing';
+import * as THREE from 'three';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { useGreeting } from './GreetingContext';
+import { loadFonts } from './FontLoader';
+import { pointScaleUniform } from './PointScale';
+
+// --- HIGH-RESOLUTION STILLS ---
+// Renders the current frame again at an export size, post-processing included, reads the
+// pixels back and hands out a PNG. The capture is drawn offscreen: the canvas and its drawing
+// buffer are never resized, so the page doesn't reflow or flash while it runs.
+
+export interface SnapshotSize {
+  id: string;
+  label: string;
+  long: number; // Long edge in pixels; 0 means "the screen, doubled"
+  short: number;
+}
+
+// Oriented to match the screen when captured, so a portrait phone gets a portrait picture
+export const SNAPSHOT_SIZES: SnapshotSize[] = [
+  { id: 'screen', label: 'Screen ×2', long: 0, short: 0 },
+  { id: 'hd', label: 'Full HD', long: 1920, short: 1080 },
+  { id: '4k', label: '4K', long: 3840, short: 2160 },
+  { id: 'a4', label: 'A4 print', long: 3508, short: 2480 }, // 300 dpi
+  { id: 'square', label: 'Square', long: 2048, short: 2048 },
+];
+
+// A camera pose to capture from instead of the on-screen camera, in world space
+export interface SnapshotView {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  fov?: number;
+}
+
+export interface SnapshotOptions {
+  size: SnapshotSize;
+  transparent: boolean; // Leave the background out; glow over empty areas is lost with it
+  title?: string; // Drawn across the top like the on-screen title
+  view?: SnapshotView;
+}
+
+export interface SnapshotResult {
+  blob: Blob; // PNG
+  width: number;
+  height: number;
+}
+
+type CaptureFrame = (width: number, height: number, transparent: boolean, view?: SnapshotView) => HTMLCanvasElement;
+
+interface SnapshotContextValue {
+  available: boolean;
+  register: (capture: CaptureFrame | null) => void;
+  capture: (options: SnapshotOptions) => Promise<SnapshotResult>;
+}
+
+const SnapshotContext = createContext<SnapshotContextValue | null>(null);
+
+export const useSnapshot = () => {
+  const snapshot = useContext(SnapshotContext);
+  if (!snapshot) throw new Error('useSnapshot must be used inside a SnapshotProvider');
+  return snapshot;
+};
+
+export const TITLE_FONT = { family: 'Cinzel Decorative', weight: 700 };
+
+// The overlay's title across the top of a frame; load TITLE_FONT first or a fallback face is used
+export const drawTitle = (ctx: CanvasRenderingContext2D, width: number, height: number, title: string) => {
+  const text = title.toUpperCase();
+  const fit = (px: number) => {
+    ctx.font = `${TITLE_FONT.weight} ${px}px "${TITLE_FONT.family}", serif`;
+    ctx.letterSpacing = `${px * 0.1}px`; // The overlay's wide tracking
+    return ctx.measureText(text).width;
+  };
+
+  ctx.save();
+  let size = Math.round(Math.min(width, height) * 0.09);
+  const textWidth = fit(size);
+  const maxWidth = width * 0.9;
+  if (textWidth > maxWidth) fit((size = Math.floor((size * maxWidth) / textWidth)));
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#ffffff';
+  ctx.shadowColor = 'rgba(255, 255, 255, 0.8)';
+  ctx.shadowBlur = size * 0.3;
+  // Spacing trails the last letter too, so shift right by half of it to stay centred
+  ctx.fillText(text, width / 2 + size * 0.05, height * 0.05);
+  ctx.restore();
+};
+
+const toPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the picture'))), 'image/png');
+  });
+
+export const SnapshotProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const captureRef = useRef<CaptureFrame | null>(null);
+  const [available, setAvailable] = useState(false);
+
+  const register = useCallback((capture: CaptureFrame | null) => {
+    captureRef.current = capture;
+    setAvailable(!!capture);
+  }, []);
+
+  const capture = useCallback(async ({ size, transparent, title, view }: SnapshotOptions) => {
+    const captureFrame = captureRef.current;
+    if (!captureFrame) throw new Error('The scene is not ready to capture yet');
+
+    const portrait = window.innerHeight > window.innerWidth;
+    const long = size.long || Math.max(window.innerWidth, window.innerHeight) * 2;
+    const short = size.short || Math.min(window.innerWidth, window.innerHeight) * 2;
+    const canvas = captureFrame(portrait ? short : long, portrait ? long : short, transparent, view);
+    const ctx = canvas.getContext('2d');
+    if (title && ctx) {
+      await loadFonts([TITLE_FONT]);
+      drawTitle(ctx, canvas.width, canvas.height, title);
+    }
+    return { blob: await toPng(canvas), width: canvas.width, height: canvas.height };
+  }, []);
+
+  const value = useMemo(() => ({ available, register, capture }), [available, register, capture]);
+
+  return <SnapshotContext.Provider value={value}>{children}</SnapshotContext.Provider>;
+};
+
+type ComposerHandle = React.ComponentRef<typeof EffectComposer>;
+
+// Where the composer leaves its picture when no pass draws to the screen: every pass that
+// swaps buffers hands its output on as the next input
+const getComposerOutput = (effects: ComposerHandle) => {
+  let input = effects.inputBuffer;
+  let output = effects.outputBuffer;
+  effects.passes.forEach((pass) => {
+    if (pass.enabled && pass.needsSwap) [input, output] = [output, input];
+  });
+  return input;
+};
+
+// Lives inside the Canvas next to the effect composer it renders through
+export const SnapshotRenderer: React.FC<{ composer: React.RefObject<ComposerHandle | null> }> = ({ composer }) => {
+  const { register } = useSnapshot();
+  const get = useThree((state) => state.get);
+
+  useEffect(() => {
+    const captureFrame: CaptureFrame = (requestedWidth, requestedHeight, transparent, view) => {
+      const { gl, scene, camera, size } = get();
+      const context = gl.getContext();
+      const perspective = camera as THREE.PerspectiveCamera;
+      const effects = composer.current;
+
+      // Shrink proportionally if the GPU can't go that big
+      const [maxWidth, maxHeight] = context.getParameter(context.MAX_VIEWPORT_DIMS) as Int32Array;
+      const limit = Math.min(1, gl.capabilities.maxTextureSize / Math.max(requestedWidth, requestedHeight), maxWidth / requestedWidth, maxHeight / requestedHeight);
+      const width = Math.floor(requestedWidth * limit);
+      const height = Math.floor(requestedHeight * limit);
+
+      const previous = {
+        background: scene.background,
+        clearAlpha: gl.getClearAlpha(),
+        aspect: perspective.aspect,
+        position: perspective.position.clone(),
+        quaternion: perspective.quaternion.clone(),
+        fov: perspective.fov,
+      };
+
+      // The frame is drawn linear, then tone mapped and encoded by the output pass the way the
+      // screen would show it, into an 8-bit target that can be read back
+      const outputTarget = new THREE.WebGLRenderTarget(width, height);
+      const outputPass = new OutputPass();
+      const pixels = new Uint8Array(width * height * 4);
+      const toScreen = effects?.passes.map((pass) => pass.renderToScreen);
+      let sceneTarget: THREE.WebGLRenderTarget | undefined;
+
+      // Everything changed for the capture is put back even if rendering or the readback fails
+      // (lost context, out of memory), so the live view never keeps the export's size or background
+      try {
+        if (view) {
+          perspective.position.copy(view.position);
+          perspective.lookAt(view.target);
+          perspective.fov = view.fov ?? perspective.fov;
+          perspective.updateMatrixWorld();
+        }
+        perspective.aspect = width / height;
+        perspective.updateProjectionMatrix();
+        if (transparent) {
+          scene.background = null;
+          gl.setClearAlpha(0);
+        }
+        pointScaleUniform.value = height / context.drawingBufferHeight;
+
+        if (effects) {
+          // Only the composer's own buffers take the export size, the canvas keeps its own
+          effects.inputBuffer.setSize(width, height);
+          effects.outputBuffer.setSize(width, height);
+          effects.passes.forEach((pass) => {
+            pass.setSize(width, height);
+            pass.renderToScreen = false;
+          });
+          effects.render(0);
+          outputPass.render(gl, outputTarget, getComposerOutput(effects), 0, false);
+        } else {
+          sceneTarget = new THREE.WebGLRenderTarget(width, height, { type: THREE.HalfFloatType });
+          gl.setRenderTarget(sceneTarget);
+          gl.render(scene, camera);
+          outputPass.render(gl, outputTarget, sceneTarget, 0, false);
+        }
+        gl.readRenderTargetPixels(outputTarget, 0, 0, width, height, pixels);
+      } finally {
+        if (effects && toScreen) {
+          effects.passes.forEach((pass, i) => {
+            pass.renderToScreen = toScreen[i];
+          });
+          effects.setSize(size.width, size.height, false);
+        }
+        gl.setRenderTarget(null);
+        sceneTarget?.dispose();
+        outputTarget.dispose();
+        outputPass.dispose();
+
+        pointScaleUniform.value = 1;
+        if (view) {
+          perspective.position.copy(previous.position);
+          perspective.quaternion.copy(previous.quaternion);
+          perspective.fov = previous.fov;
+          perspective.updateMatrixWorld();
+        }
+        perspective.aspect = previous.aspect;
+        perspective.updateProjectionMatrix();
+        scene.background = previous.background;
+        gl.setClearAlpha(previous.clearAlpha);
+      }
+
+      // WebGL rows run bottom-up and the frame is premultiplied
+      const output = document.createElement('canvas');
+      output.width = width;
+      output.height = height;
+      const ctx = output.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context unavailable');
+      const image = ctx.createImageData(width, height);
+      const rowSize = width * 4;
+      for (let y = 0; y < height; y++) {
+        const from = (height - 1 - y) * rowSize;
+        const to = y * rowSize;
+        for (let x = 0; x < rowSize; x += 4) {
+          const alpha = pixels[from + x + 3];
+          const unpremultiply = alpha > 0 && alpha < 255 ? 255 / alpha : 1;
+          image.data[to + x] = Math.min(255, pixels[from + x] * unpremultiply);
+          image.data[to + x + 1] = Math.min(255, pixels[from + x + 1] * unpremultiply);
+          image.data[to + x + 2] = Math.min(255, pixels[from + x + 2] * unpremultiply);
+          image.data[to + x + 3] = transparent ? alpha : 255;
+        }
+      }
+      ctx.putImageData(image, 0, 0);
+      return output;
+    };
+
+    register(captureFrame);
+    return () => register(null);
+  }, [composer, get, register]);
+
+  return null;
+};
+
+export const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// File name without extension, derived from the greeting title
+export const getFileStem = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'christmas-tree';
+
+// "Save picture" button with its size and background options, shown under the quality picker
+export const SnapshotControl: React.FC = () => {
+  const { available, capture } = useSnapshot();
+  const { title } = useGreeting();
+  const [open, setOpen] = useState(false);
+  const [sizeId, setSizeId] = useState(SNAPSHOT_SIZES[0].id);
+  const [transparent, setTransparent] = useState(false);
+  const [withTitle, setWithTitle] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const save = async () => {
+    const size = SNAPSHOT_SIZES.find((s) => s.id === sizeId) ?? SNAPSHOT_SIZES[0];
+    setBusy(true);
+    setFailed(false);
+    try {
+      const { blob, width, height } = await capture({ size, transparent, title: withTitle ? title : undefined });
+      downloadBlob(blob, `${getFileStem(title)}-${width}x${height}.png`);
+    } catch (e) {
+      console.error('Failed to save the picture:', e);
+      setFailed(true);
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        disabled={!available}
+        className="bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold py-1 px-3 rounded-full shadow-lg flex items-center gap-2 text-sm transition-colors duration-300 disabled:opacity-50"
+      >
+        <span>🖼️</span> Save picture
+      </button>
+      {open && (
+        <div className="bg-white/30 backdrop-blur-md border border-white/40 rounded-2xl shadow-lg p-3 flex flex-col gap-2 text-sm text-[var(--theme-accent-dark)] w-48">
+          <label className="flex items-center justify-between gap-2">
+            Size
+            <select value={sizeId} onChange={(e) => setSizeId(e.target.value)} className="bg-transparent outline-none cursor-pointer hover:text-[var(--theme-message)] font-bold">
+              {SNAPSHOT_SIZES.map((size) => (
+                <option key={size.id} value={size.id}>
+                  {size.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+            Transparent background
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={withTitle} onChange={(e) => setWithTitle(e.target.checked)} />
+            Add the title
+          </label>
+          <button
+            onClick={save}
+            disabled={busy}
+            className="mt-1 w-full bg-white/60 hover:bg-white text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold py-1 rounded-full transition-colors duration-300 disabled:opacity-60"
+          >
+            {busy ? 'Rendering…' : 'Download PNG'}
+          </button>
+          {failed && <p className="text-[var(--theme-message)] text-xs">Couldn't render the picture. Try a smaller size.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
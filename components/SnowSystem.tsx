@@ -3,6 +3,11 @@ import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeMode } from '../types';
+import { useTransitionDirector } from './TransitionDirector';
+import { useGreeting } from './GreetingContext';
+import { createRng } from './Random';
+import { useQuality } from './QualityManager';
+import { pointScaleUniform } from './PointScale';
 
 interface SnowSystemProps {
   mode: TreeMode;
@@ -11,6 +16,7 @@ interface SnowSystemProps {
 // --- GROUND SNOW DRIFTS ---
 export const SnowDrifts: React.FC<{ mode: TreeMode }> = ({ mode }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const director = useTransitionDirector();
   
   const geometry = useMemo(() => {
     const geo = new THREE.SphereGeometry(1, 128, 64, 0, Math.PI * 2, 0, Math.PI * 0.5);
@@ -30,12 +36,9 @@ export const SnowDrifts: React.FC<{ mode: TreeMode }> = ({ mode }) => {
     return geo;
   }, []);
   
-  useFrame((state, delta) => {
+  useFrame(() => {
     if (!groupRef.current) return;
-    const targetScale = mode === TreeMode.FORMED ? 1 : 0;
-    const lerpSpeed = mode === TreeMode.FORMED ? 1.5 : 3.0;
-    const currentScale = groupRef.current.scale.x;
-    const nextScale = THREE.MathUtils.lerp(currentScale, targetScale, delta * lerpSpeed);
+    const nextScale = director.getWeight(TreeMode.FORMED);
     groupRef.current.scale.setScalar(nextScale);
     groupRef.current.visible = nextScale > 0.01;
   });
@@ -51,18 +54,21 @@ export const SnowDrifts: React.FC<{ mode: TreeMode }> = ({ mode }) => {
 
 // --- FALLING SNOW PARTICLES ---
 const FallingSnow: React.FC<{ mode: TreeMode }> = ({ mode }) => {
-  const count = 400; 
+  const count = useQuality().profile.snowCount;
   const mesh = useRef<THREE.Points>(null);
+  const { seed } = useGreeting();
   
   const snowMaterial = useMemo(() => new THREE.ShaderMaterial({
     uniforms: {
       uTime: { value: 0 },
       uColor: { value: new THREE.Color('#ffffff') },
       uSize: { value: 40.0 }, // Reduced size for natural look
+      uPointScale: pointScaleUniform,
     },
     vertexShader: `
       uniform float uTime;
       uniform float uSize;
+      uniform float uPointScale;
       attribute float aScale;
       attribute vec3 aVelocity;
       varying float vAlpha;
@@ -93,7 +99,7 @@ const FallingSnow: React.FC<{ mode: TreeMode }> = ({ mode }) => {
         pos.z += cos(uTime * aVelocity.z + pos.y) * 0.5;
 
         vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
-        gl_PointSize = uSize * aScale * (10.0 / -mvPosition.z);
+        gl_PointSize = uSize * uPointScale * aScale * (10.0 / -mvPosition.z);
         gl_Position = projectionMatrix * mvPosition;
         
         // Fade out near bottom
@@ -129,21 +135,22 @@ const FallingSnow: React.FC<{ mode: TreeMode }> = ({ mode }) => {
     const pos = new Float32Array(count * 3);
     const sc = new Float32Array(count);
     const vel = new Float32Array(count * 3);
+    const rng = createRng(`${seed}:snow`);
     
     for (let i = 0; i < count; i++) {
-      pos[i * 3] = (Math.random() - 0.5) * 50;     // X
-      pos[i * 3 + 1] = Math.random() * 25 - 5;     // Y
-      pos[i * 3 + 2] = (Math.random() - 0.5) * 50; // Z
+      pos[i * 3] = (rng() - 0.5) * 50;     // X
+      pos[i * 3 + 1] = rng() * 25 - 5;     // Y
+      pos[i * 3 + 2] = (rng() - 0.5) * 50; // Z
       
-      sc[i] = Math.random() * 0.5 + 0.5; 
+      sc[i] = rng() * 0.5 + 0.5; 
 
-      vel[i * 3] = Math.random() * 0.5 + 0.2; // Drift freq X
-      vel[i * 3 + 1] = Math.random() * 1.5 + 1.0; // Fall speed Y
-      vel[i * 3 + 2] = Math.random() * 0.5 + 0.2; // Drift freq Z
+      vel[i * 3] = rng() * 0.5 + 0.2; // Drift freq X
+      vel[i * 3 + 1] = rng() * 1.5 + 1.0; // Fall speed Y
+      vel[i * 3 + 2] = rng() * 0.5 + 0.2; // Drift freq Z
     }
     
     return { positions: pos, scales: sc, velocities: vel };
-  }, []);
+  }, [seed, count]);
 
   useFrame((state) => {
     if (mesh.current) {
@@ -153,7 +160,7 @@ const FallingSnow: React.FC<{ mode: TreeMode }> = ({ mode }) => {
 
   return (
     <points ref={mesh}>
-      <bufferGeometry>
+      <bufferGeometry key={count}>
         <bufferAttribute attach="attributes-position" count={count} array={positions} itemSize={3} />
         <bufferAttribute attach="attributes-aScale" count={count} array={scales} itemSize={1} />
         <bufferAttribute attach="attributes-aVelocity" count={count} array={velocities} itemSize={3} />
@@ -1,14 +1,35 @@
 
-import React, { useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeMode } from '../types';
+import { useTransitionDirector } from './TransitionDirector';
+import { useGreeting } from './GreetingContext';
+import { createRng } from './Random';
+import { useQuality } from './QualityManager';
+import { pointScaleUniform } from './PointScale';
+import { themeColors } from './ThemeContext';
+import { audioUniforms } from './AudioAnalysis';
+import { clearModeBounds, getLayoutBounds, setModeBounds } from './CameraFit';
 
 interface TextRibbonProps {
   mode: TreeMode;
 }
 
 // Common GLSL functions for path calculation
+// Half the width and depth of the figure-8 loops around the text (A6 text is roughly 16 wide)
+const RIBBON_RADIUS_X = 9.5;
+const RIBBON_RADIUS_Z = 3.0;
+
+// Corners of the space the loops sweep through, from getPath below: y runs from 16 down to 2,
+// plus the sway (1.5) and the tilt (0.2 of the width). The margin covers the ribbon's width.
+const RIBBON_EXTENT = 1.5 + 0.2 * RIBBON_RADIUS_X;
+const RIBBON_CORNERS = [
+  -RIBBON_RADIUS_X, 2 - RIBBON_EXTENT, -RIBBON_RADIUS_Z,
+  RIBBON_RADIUS_X, 16 + RIBBON_EXTENT, RIBBON_RADIUS_Z,
+];
+const RIBBON_MARGIN = 0.7;
+
 const GLSL_COMMON = `
   #define PI 3.14159265
 
@@ -49,6 +70,8 @@ const RIBBON_VERTEX = `
   attribute float aPhaseOffset; // 0 or PI
 
   uniform float uTime;
+  uniform float uAudioEnergy; // Music levels, 0 while nothing plays
+  uniform float uAudioBeat;
   
   varying vec2 vUv;
   varying float vAlpha;
@@ -74,8 +97,8 @@ const RIBBON_VERTEX = `
     float angle = (t * PI * 2.0 * spiralDensity) - speed + aPhaseOffset;
 
     // Dimensions (A6 Text is roughly 16 wide, 10 high)
-    float rx = 9.5; 
-    float rz = 3.0; // Deep enough to weave in and out
+    float rx = ${RIBBON_RADIUS_X.toFixed(1)};
+    float rz = ${RIBBON_RADIUS_Z.toFixed(1)}; // Deep enough to weave in and out
 
     // --- POSITION CALCULATION ---
     vec3 center = getPath(angle, rx, rz, t, aTiltDir);
@@ -89,8 +112,9 @@ const RIBBON_VERTEX = `
     vec3 up = vec3(0.0, 1.0, 0.0);
     vec3 binormal = normalize(cross(forward, up));
     
-    // Ribbon Width Pulse
-    float widthPulse = 1.0 + 0.2 * sin(t * 10.0 - uTime * 3.0);
+    // Ribbon Width Pulse: a gentle wave, deeper with the music and swelling on each beat
+    float wave = 0.2 + 0.3 * uAudioEnergy;
+    float widthPulse = 1.0 + wave * sin(t * 10.0 - uTime * 3.0) + 0.35 * uAudioBeat;
     
     vec3 pos = center + binormal * w * 0.7 * widthPulse; 
 
@@ -106,6 +130,8 @@ const RIBBON_VERTEX = `
 const RIBBON_FRAGMENT = `
   uniform float uTime;
   uniform float uOpacity;
+  uniform vec3 uDeep; // Theme colours: ribbon centre and edges
+  uniform vec3 uEdge;
   
   varying vec2 vUv;
   varying float vAlpha;
@@ -120,12 +146,10 @@ const RIBBON_FRAGMENT = `
     float edgeGlow = smoothstep(0.6, 1.0, d);
     
     // 2. Core Gradient
-    // Deep Blue center -> Cyan edges
-    vec3 cDeep = vec3(0.0, 0.1, 0.8);
-    vec3 cCyan = vec3(0.0, 0.8, 1.0);
+    // Deep center -> bright edges
     vec3 cWhite = vec3(1.0);
 
-    vec3 col = mix(cDeep, cCyan, d * 0.8 + 0.2);
+    vec3 col = mix(uDeep, uEdge, d * 0.8 + 0.2);
     
     // 3. Flowing Energy Highlights
     float energyFlow = sin(vUv.x * 15.0 - uTime * 2.5);
@@ -136,7 +160,7 @@ const RIBBON_FRAGMENT = `
     col += cWhite * streak * edgeGlow * 1.5;
     
     // Add general edge rim light
-    col += cCyan * edgeGlow * 0.5;
+    col += uEdge * edgeGlow * 0.5;
 
     // 4. Depth Occlusion Simulation
     // Dim slightly when 'behind' (negative Z)
@@ -158,6 +182,7 @@ const STARDUST_VERTEX = `
   
   uniform float uTime;
   uniform float uOpacity;
+  uniform float uPointScale;
   
   varying float vAlpha;
 
@@ -170,8 +195,8 @@ const STARDUST_VERTEX = `
     float spiralDensity = 1.5;
     float angle = (t * PI * 2.0 * spiralDensity) - speed + aPhaseOffset;
     
-    float rx = 9.5;
-    float rz = 3.0;
+    float rx = ${RIBBON_RADIUS_X.toFixed(1)};
+    float rz = ${RIBBON_RADIUS_Z.toFixed(1)};
     
     vec3 center = getPath(angle, rx, rz, t, aTiltDir);
     
@@ -190,12 +215,13 @@ const STARDUST_VERTEX = `
     vAlpha *= smoothstep(0.0, 0.1, t) * (1.0 - smoothstep(0.9, 1.0, t));
     
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
-    gl_PointSize = (100.0 * (0.6 + 0.4 * sin(t * 20.0))) * (1.0 / -mvPosition.z);
+    gl_PointSize = (100.0 * (0.6 + 0.4 * sin(t * 20.0))) * uPointScale * (1.0 / -mvPosition.z);
     gl_Position = projectionMatrix * mvPosition;
   }
 `;
 
 const STARDUST_FRAGMENT = `
+  uniform vec3 uColor; // Sparkle colour from the theme
   varying float vAlpha;
   void main() {
     vec2 coord = gl_PointCoord - vec2(0.5);
@@ -205,15 +231,14 @@ const STARDUST_FRAGMENT = `
     float strength = 1.0 - (dist * 2.0);
     strength = pow(strength, 2.0);
     
-    // Sparkle Color
-    vec3 col = vec3(0.7, 0.9, 1.0);
-    
-    gl_FragColor = vec4(col, strength * vAlpha);
+    gl_FragColor = vec4(uColor, strength * vAlpha);
   }
 `;
 
 const TextRibbon: React.FC<TextRibbonProps> = ({ mode }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const director = useTransitionDirector();
+  const { seed } = useGreeting();
   
   // 1. Ribbon Geometry (Instanced)
   const ribbonGeo = useMemo(() => {
@@ -234,7 +259,11 @@ const TextRibbon: React.FC<TextRibbonProps> = ({ mode }) => {
     fragmentShader: RIBBON_FRAGMENT,
     uniforms: {
         uTime: { value: 0 },
-        uOpacity: { value: 0 }
+        uOpacity: { value: 0 },
+        uDeep: { value: themeColors.ribbonDeep },
+        uEdge: { value: themeColors.ribbonEdge },
+        uAudioEnergy: audioUniforms.uAudioEnergy,
+        uAudioBeat: audioUniforms.uAudioBeat
     },
     transparent: true,
     side: THREE.DoubleSide,
@@ -243,16 +272,17 @@ const TextRibbon: React.FC<TextRibbonProps> = ({ mode }) => {
   }), []);
 
   // 2. Stardust Geometry (Particles)
-  const stardustCount = 2000;
+  const { stardustCount } = useQuality().profile;
   const stardustGeo = useMemo(() => {
       const geo = new THREE.BufferGeometry();
       const pos = new Float32Array(stardustCount * 3);
       const offsets = new Float32Array(stardustCount);
       const tiltDirs = new Float32Array(stardustCount);
       const phaseOffsets = new Float32Array(stardustCount);
+      const rng = createRng(`${seed}:stardust`);
       
       for(let i=0; i<stardustCount; i++) {
-          offsets[i] = Math.random(); 
+          offsets[i] = rng(); 
           
           // Split particles between ribbon 1 and 2
           const isRibbon2 = i % 2 === 0;
@@ -266,28 +296,43 @@ const TextRibbon: React.FC<TextRibbonProps> = ({ mode }) => {
       geo.setAttribute('aPhaseOffset', new THREE.BufferAttribute(phaseOffsets, 1));
       
       return geo;
-  }, []);
+  }, [seed, stardustCount]);
 
   const stardustMat = useMemo(() => new THREE.ShaderMaterial({
       vertexShader: STARDUST_VERTEX,
       fragmentShader: STARDUST_FRAGMENT,
       uniforms: {
           uTime: { value: 0 },
-          uOpacity: { value: 0 }
+          uOpacity: { value: 0 },
+          uPointScale: pointScaleUniform,
+          uColor: { value: themeColors.stardust }
       },
       transparent: true,
       depthWrite: false,
       blending: THREE.AdditiveBlending
   }), []);
 
-  useFrame((state, delta) => {
+  // The loops reach past the text, so the camera fits the TEXT shot to them too
+  useEffect(() => {
+    if (!groupRef.current) return;
+    setModeBounds(TreeMode.TEXT, 'ribbon', getLayoutBounds(RIBBON_CORNERS, groupRef.current, { margin: RIBBON_MARGIN }));
+    return () => clearModeBounds('ribbon');
+  }, []);
+
+  // Handed to the meshes as props, which R3F doesn't dispose; the stardust is rebuilt on a tier change
+  useEffect(() => () => stardustGeo.dispose(), [stardustGeo]);
+  useEffect(() => () => {
+    ribbonGeo.dispose();
+    ribbonMat.dispose();
+    stardustMat.dispose();
+  }, [ribbonGeo, ribbonMat, stardustMat]);
+
+  useFrame((state) => {
     if (!groupRef.current) return;
     
     // Visibility Transition
     // Visible only in TEXT MODE
-    const targetOpacity = mode === TreeMode.TEXT ? 1.0 : 0.0;
-    const currentOpacity = ribbonMat.uniforms.uOpacity.value;
-    const nextOpacity = THREE.MathUtils.lerp(currentOpacity, targetOpacity, delta * 2.0);
+    const nextOpacity = director.getWeight(TreeMode.TEXT);
     
     ribbonMat.uniforms.uOpacity.value = nextOpacity;
     stardustMat.uniforms.uOpacity.value = nextOpacity;
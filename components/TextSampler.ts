@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react';
+import { GreetingLine } from '../types';
+import { areFontsReady, FontFaceRequest, loadFonts } from './FontLoader';
+import { createRng } from './Random';
+
+// --- TEXT-TO-PARTICLE SAMPLER ---
+// Rasterises lines of text onto a canvas and turns the lit pixels into world-space points.
+// Results are cached per option set, so every particle system asking for the same text shares one scan.
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextSampleOptions {
+  lines: GreetingLine[];
+  count: number; // Point budget: exactly this many points are returned
+  fontFamily?: string;
+  fontWeight?: number; // Used for lines without their own weight
+  align?: TextAlign;
+  lineGap?: number; // Extra spacing between lines, as a fraction of the line size
+  worldWidth?: number; // Width of the widest line in world units
+  maxWorldHeight?: number; // The block is shrunk further if it would be taller than this
+  center?: [number, number, number];
+  depthJitter?: number; // Z spread of the points
+  seed?: string | number; // Decides which particle lands on which glyph point
+}
+
+const DEFAULTS = {
+  fontFamily: 'Cinzel Decorative',
+  fontWeight: 900,
+  align: 'center' as TextAlign,
+  lineGap: 0.25,
+  worldWidth: 16,
+  maxWorldHeight: 10,
+  center: [0, 7, 0] as [number, number, number],
+  depthJitter: 1.0,
+  seed: 0 as string | number,
+};
+
+// Largest canvas edge we are willing to rasterise into
+const MAX_CANVAS_SIZE = 2048;
+const PADDING = 16;
+
+// Lyrics ask for a new layout every few seconds, so only the most recent ones are kept
+const MAX_CACHED = 12;
+const cache = new Map<string, Float32Array>();
+
+const remember = (key: string, points: Float32Array) => {
+  cache.delete(key);
+  cache.set(key, points); // Maps iterate in insertion order, so the first key is the stalest
+  if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value!);
+};
+
+export const getTextSampleKey = (options: TextSampleOptions) => JSON.stringify({ ...DEFAULTS, ...options });
+
+// Every family/weight pair the lines will be drawn with
+export const getTextFontFaces = (options: TextSampleOptions): FontFaceRequest[] => {
+  const family = options.fontFamily ?? DEFAULTS.fontFamily;
+  const fallbackWeight = options.fontWeight ?? DEFAULTS.fontWeight;
+  const weights = new Set(options.lines.map((line) => line.weight ?? fallbackWeight));
+  return [...weights].map((weight) => ({ family, weight }));
+};
+
+const getFont = (line: GreetingLine, fontFamily: string, fontWeight: number, size: number) =>
+  `${line.weight ?? fontWeight} ${size}px "${fontFamily}", serif`;
+
+// Draw the lines as large as the canvas allows and return the lit pixel indices in scan order
+const rasterise = (options: Required<Omit<TextSampleOptions, 'count'>>) => {
+  const { lines, fontFamily, fontWeight, align, lineGap } = options;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  // 1. Measure at nominal size
+  const widths = lines.map((line) => {
+    ctx.font = getFont(line, fontFamily, fontWeight, line.size);
+    return ctx.measureText(line.text).width;
+  });
+  const blockWidth = Math.max(1, ...widths);
+  const blockHeight = Math.max(1, lines.reduce((sum, line) => sum + line.size * (1 + lineGap), 0));
+
+  // 2. Fit the block into the canvas budget, so long names shrink instead of clipping
+  const rasterScale = Math.min(
+    (MAX_CANVAS_SIZE - PADDING * 2) / blockWidth,
+    (MAX_CANVAS_SIZE - PADDING * 2) / blockHeight
+  );
+  const width = Math.ceil(blockWidth * rasterScale) + PADDING * 2;
+  const height = Math.ceil(blockHeight * rasterScale) + PADDING * 2;
+  canvas.width = width;
+  canvas.height = height;
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.textAlign = align;
+  ctx.textBaseline = 'middle';
+
+  const anchorX = align === 'left' ? PADDING : align === 'right' ? width - PADDING : width / 2;
+  let cursorY = PADDING;
+  lines.forEach((line) => {
+    const size = line.size * rasterScale;
+    const lineHeight = size * (1 + lineGap);
+    ctx.font = getFont(line, fontFamily, fontWeight, size);
+    ctx.fillText(line.text, anchorX, cursorY + lineHeight / 2);
+    cursorY += lineHeight;
+  });
+
+  // 3. Collect lit pixels
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const lit: number[] = [];
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (data[i] > 128) lit.push(p);
+  }
+
+  return { lit, width, height, contentWidth: blockWidth * rasterScale, contentHeight: blockHeight * rasterScale };
+};
+
+// Cheap hash for stable sub-pixel jitter
+const hash = (n: number) => {
+  const x = Math.sin(n * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+// Samples with whatever faces are available right now. Results drawn with a fallback face
+// are cached separately, so a later call after the webfont arrives rasterises again.
+export const sampleTextPoints = (options: TextSampleOptions): Float32Array => {
+  const fontsReady = areFontsReady(getTextFontFaces(options));
+  const key = `${getTextSampleKey(options)}|${fontsReady ? 'ready' : 'fallback'}`;
+  const cached = cache.get(key);
+  if (cached) {
+    remember(key, cached);
+    return cached;
+  }
+
+  const resolved = { ...DEFAULTS, ...options };
+  const { count, worldWidth, maxWorldHeight, center, depthJitter, seed } = resolved;
+  const points = new Float32Array(count * 3);
+  if (typeof document === 'undefined') return points;
+
+  const raster = rasterise(resolved);
+  if (!raster || raster.lit.length === 0) {
+    // Nothing drawable: collapse onto the centre rather than returning garbage
+    for (let i = 0; i < count; i++) points.set(center, i * 3);
+    return points;
+  }
+
+  const { lit, width, height, contentWidth, contentHeight } = raster;
+  const scale = Math.min(worldWidth / contentWidth, maxWorldHeight / contentHeight);
+
+  // Stratified walk over the lit pixels: each point owns an equal slice of the glyph area and
+  // picks one pixel inside it. With more points than pixels each pixel receives an equal share
+  // spread across its cell, so the glyphs are covered uniformly either way.
+  const rng = createRng(seed);
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    const tmp = order[i];
+    order[i] = order[j];
+    order[j] = tmp;
+  }
+
+  for (let k = 0; k < count; k++) {
+    const pixel = lit[Math.floor(((k + hash(k + count * 3)) * lit.length) / count)];
+    const px = (pixel % width) + hash(k);
+    const py = Math.floor(pixel / width) + hash(k + count);
+
+    // Shuffled slots prevent patterns when particles are assigned by index
+    const idx = order[k] * 3;
+    points[idx] = (px - width / 2) * scale + center[0];
+    points[idx + 1] = -(py - height / 2) * scale + center[1];
+    points[idx + 2] = (hash(k + count * 2) - 0.5) * depthJitter + center[2];
+  }
+
+  remember(key, points);
+  return points;
+};
+
+// Waits for the requested faces first (giving up after the loader's timeout)
+export const sampleTextPointsWhenReady = async (options: TextSampleOptions) => {
+  await loadFonts(getTextFontFaces(options));
+  return sampleTextPoints(options);
+};
+
+// Returns points immediately, then swaps in a fresh sample if the font was still loading
+export const useSampledText = (options: TextSampleOptions) => {
+  const key = getTextSampleKey(options);
+  const [fontVersion, setFontVersion] = useState(0);
+
+  const points = useMemo(() => sampleTextPoints(options), [key, fontVersion]);
+
+  useEffect(() => {
+    const faces = getTextFontFaces(options);
+    if (areFontsReady(faces)) return;
+
+    let cancelled = false;
+    loadFonts(faces).then((loaded) => {
+      if (loaded && !cancelled) setFontVersion((v) => v + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return points;
+};
@@ -0,0 +1,264 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Palette, Theme } from '../types';
+import { useGreeting } from './GreetingContext';
+
+// --- THEMES ---
+// A theme names every colour by role. The scene reads them from shared THREE.Colors (bound
+// straight into shader uniforms) that ease towards the chosen theme each frame; the page reads
+// them from CSS variables. Switching is a blend, nothing is rebuilt.
+
+// The original look, built from the greeting's palette so configs that recolour it keep working.
+// Shader colours that used to be hard-coded are kept as their sRGB equivalents.
+export const createPaletteTheme = (palette: Palette): Theme => ({
+  id: 'sakura',
+  label: 'Sakura & sky',
+  background: palette.sakuraPink,
+  fog: palette.sakuraPink,
+  lights: { ambient: palette.skyBlue, key: palette.white, spot: palette.hotPink },
+  foliage: {
+    tree: [palette.foliageBlue, palette.foliagePink],
+    textBottom: '#597CF3',
+    textTop: '#7CF3FF',
+    scan: '#BCF3FF',
+  },
+  ribbon: { deep: '#0059E7', edge: '#00E7FF', stardust: '#DAF3FF' },
+  ornaments: {
+    gifts: [palette.sakuraPink, palette.skyBlue, palette.deepBlue, palette.white, palette.foliagePink],
+    giftRibbon: palette.gold,
+    cars: [palette.hotPink, palette.deepBlue, palette.foliageBlue, '#FF6B6B', '#4ECDC4'],
+    baubles: palette.white,
+    lights: '#FFFACD',
+  },
+  star: palette.gold,
+  bloom: { intensity: 1.2, threshold: 0.8 },
+  ui: {
+    accent: '#38BDF8',
+    accentDark: '#0EA5E9',
+    accentLight: '#BAE6FD',
+    text: palette.sakuraPink,
+    message: palette.hotPink,
+    cursor: palette.skyBlue,
+  },
+});
+
+const CLASSIC: Theme = {
+  id: 'classic',
+  label: 'Classic',
+  background: '#0F2A1D',
+  fog: '#0F2A1D',
+  lights: { ambient: '#FFE8C2', key: '#FFFFFF', spot: '#FF3B30' },
+  foliage: {
+    tree: ['#1B5E20', '#43A047'],
+    textBottom: '#B71C1C',
+    textTop: '#FFD54F',
+    scan: '#FFF3C4',
+  },
+  ribbon: { deep: '#8E0000', edge: '#FF5252', stardust: '#FFE082' },
+  ornaments: {
+    gifts: ['#C62828', '#2E7D32', '#F9A825', '#FFFFFF', '#8E0000'],
+    giftRibbon: '#FFD700',
+    cars: ['#C62828', '#1B5E20', '#F9A825', '#FF6B6B', '#2E7D32'],
+    baubles: '#FFE7A0',
+    lights: '#FFF2C2',
+  },
+  star: '#FFD700',
+  bloom: { intensity: 1.2, threshold: 0.8 },
+  ui: {
+    accent: '#C62828',
+    accentDark: '#8E0000',
+    accentLight: '#FDECEA',
+    text: '#B71C1C',
+    message: '#C62828',
+    cursor: '#FFD54F',
+  },
+};
+
+const MIDNIGHT: Theme = {
+  id: 'midnight',
+  label: 'Midnight',
+  background: '#0B1026',
+  fog: '#0B1026',
+  lights: { ambient: '#6C7BD9', key: '#DFE6FF', spot: '#9B6BFF' },
+  foliage: {
+    tree: ['#1C2A6B', '#5B8CFF'],
+    textBottom: '#3A2BD9',
+    textTop: '#B8C6FF',
+    scan: '#E6ECFF',
+  },
+  ribbon: { deep: '#2A1A8C', edge: '#8FA8FF', stardust: '#DFE6FF' },
+  ornaments: {
+    gifts: ['#1C2A6B', '#3949AB', '#C0C8E0', '#FFFFFF', '#7E57C2'],
+    giftRibbon: '#C0C8E0',
+    cars: ['#3949AB', '#7E57C2', '#1C2A6B', '#90CAF9', '#B0BEC5'],
+    baubles: '#DFE6FF',
+    lights: '#CFE3FF',
+  },
+  star: '#E8EEFF',
+  bloom: { intensity: 1.5, threshold: 0.6 },
+  ui: {
+    accent: '#5C6BC0',
+    accentDark: '#283593',
+    accentLight: '#C5CAE9',
+    text: '#283593',
+    message: '#3949AB',
+    cursor: '#9FA8DA',
+  },
+};
+
+// The first entry is the default
+export const getThemePresets = (palette: Palette): Theme[] => [createPaletteTheme(palette), CLASSIC, MIDNIGHT];
+
+// --- LIVE COLOURS ---
+
+const COLOR_ROLES = {
+  background: (theme: Theme) => theme.background,
+  fog: (theme: Theme) => theme.fog,
+  ambient: (theme: Theme) => theme.lights.ambient,
+  key: (theme: Theme) => theme.lights.key,
+  spot: (theme: Theme) => theme.lights.spot,
+  treeA: (theme: Theme) => theme.foliage.tree[0],
+  treeB: (theme: Theme) => theme.foliage.tree[1],
+  textBottom: (theme: Theme) => theme.foliage.textBottom,
+  textTop: (theme: Theme) => theme.foliage.textTop,
+  textScan: (theme: Theme) => theme.foliage.scan,
+  ribbonDeep: (theme: Theme) => theme.ribbon.deep,
+  ribbonEdge: (theme: Theme) => theme.ribbon.edge,
+  stardust: (theme: Theme) => theme.ribbon.stardust,
+  giftRibbon: (theme: Theme) => theme.ornaments.giftRibbon,
+  baubles: (theme: Theme) => theme.ornaments.baubles,
+  lights: (theme: Theme) => theme.ornaments.lights,
+  star: (theme: Theme) => theme.star,
+};
+
+export type ThemeColorRole = keyof typeof COLOR_ROLES;
+
+const ROLES = Object.keys(COLOR_ROLES) as ThemeColorRole[];
+
+// The colours on screen right now, part way between themes while switching.
+// Pass them as uniform values (`{ value: themeColors.treeA }`) or copy them into materials per frame.
+export const themeColors = Object.fromEntries(ROLES.map((role) => [role, new THREE.Color()])) as Record<ThemeColorRole, THREE.Color>;
+
+export const themeLevels = { bloomIntensity: 1.2, bloomThreshold: 0.8 };
+
+const THEME_BLEND_SPEED = 2.5; // Per second; most of a switch is done within a second
+
+// Share of the remaining distance to cover this frame
+export const getThemeBlend = (delta: number) => 1 - Math.exp(-delta * THEME_BLEND_SPEED);
+
+// CSS variables for the page, e.g. `bg-[var(--theme-accent)]`
+const getCssVariables = (theme: Theme): Record<string, string> => ({
+  '--theme-background': theme.background,
+  '--theme-accent': theme.ui.accent,
+  '--theme-accent-dark': theme.ui.accentDark,
+  '--theme-accent-light': theme.ui.accentLight,
+  '--theme-text': theme.ui.text,
+  '--theme-message': theme.ui.message,
+  '--theme-cursor': theme.ui.cursor,
+});
+
+// --- CONTEXT ---
+
+interface ThemeContextValue {
+  theme: Theme;
+  themes: Theme[];
+  setTheme: (id: string) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export const useTheme = () => {
+  const theme = useContext(ThemeContext);
+  if (!theme) throw new Error('useTheme must be used inside a ThemeProvider');
+  return theme;
+};
+
+const STORAGE_KEY = 'a6-theme';
+
+// `?theme=midnight` wins over the stored choice, which wins over the greeting's own theme
+const getInitialThemeId = (themes: Theme[], configured?: string): string => {
+  const known = (id: string | null | undefined): id is string => !!id && themes.some((theme) => theme.id === id);
+  const fromUrl = new URLSearchParams(window.location.search).get('theme');
+  if (known(fromUrl)) return fromUrl;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (known(stored)) return stored;
+  } catch {
+    // Storage can be blocked (private mode); fall through to the config
+  }
+  return known(configured) ? configured : themes[0].id;
+};
+
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { palette, theme: configured } = useGreeting();
+  const themes = useMemo(() => getThemePresets(palette), [palette]);
+  const [themeId, setThemeId] = useState(() => getInitialThemeId(themes, configured));
+  const theme = themes.find((t) => t.id === themeId) ?? themes[0];
+
+  const setTheme = useCallback((id: string) => {
+    setThemeId(id);
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch {
+      // Not persisted, but still applied for this visit
+    }
+  }, []);
+
+  useEffect(() => {
+    const style = document.documentElement.style;
+    Object.entries(getCssVariables(theme)).forEach(([name, value]) => style.setProperty(name, value));
+  }, [theme]);
+
+  const value = useMemo(() => ({ theme, themes, setTheme }), [theme, themes, setTheme]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+// Lives inside the Canvas: eases the live colours towards the theme. The scene background is
+// themeColors.background itself; the fog keeps its own colour, so it is copied over here.
+export const ThemeDriver: React.FC = () => {
+  const { theme } = useTheme();
+  const scene = useThree((state) => state.scene);
+  const targets = useMemo(
+    () => Object.fromEntries(ROLES.map((role) => [role, new THREE.Color(COLOR_ROLES[role](theme))])) as Record<ThemeColorRole, THREE.Color>,
+    [theme]
+  );
+  const started = useRef(false);
+
+  // Runs before the scene's own frame callbacks, so they all see this frame's colours
+  useFrame((_, delta) => {
+    const blend = started.current ? getThemeBlend(delta) : 1; // The first theme appears as is
+    started.current = true;
+
+    ROLES.forEach((role) => themeColors[role].lerp(targets[role], blend));
+    themeLevels.bloomIntensity += (theme.bloom.intensity - themeLevels.bloomIntensity) * blend;
+    themeLevels.bloomThreshold += (theme.bloom.threshold - themeLevels.bloomThreshold) * blend;
+
+    if (scene.fog) scene.fog.color.copy(themeColors.fog);
+  }, -2);
+
+  return null;
+};
+
+// Compact picker shown under the quality picker
+export const ThemeControl: React.FC = () => {
+  const { theme, themes, setTheme } = useTheme();
+
+  return (
+    <label className="bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] font-bold py-1 px-3 rounded-full shadow-lg flex items-center gap-2 text-sm">
+      Theme
+      <select
+        value={theme.id}
+        onChange={(e) => setTheme(e.target.value)}
+        className="bg-transparent outline-none cursor-pointer hover:text-[var(--theme-message)]"
+      >
+        {themes.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -1,11 +1,17 @@
 
-import React, { useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeMode, COLORS } from '../types';
+import { TreeMode } from '../types';
+import { themeColors } from './ThemeContext';
+import { audioLevels } from './AudioAnalysis';
+import { getLayoutWeights, useTransitionDirector } from './TransitionDirector';
+import { clearModeBounds, getLayoutBounds, setModeBounds } from './CameraFit';
 
 const TopStar: React.FC<{ mode: TreeMode }> = ({ mode }) => {
   const ref = useRef<THREE.Group>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const director = useTransitionDirector();
   // Moved up to 15.0 to sit on top of the tree tip (height 15)
   const targetY = 15.0;
   const chaosY = 25; // Start high up
@@ -45,15 +51,26 @@ const TopStar: React.FC<{ mode: TreeMode }> = ({ mode }) => {
     return geom;
   }, []);
 
+  // The star tops the formed tree; the camera fits that shot with it in view
+  useEffect(() => {
+    const space = ref.current?.parent;
+    if (!space) return;
+    starGeometry.computeBoundingSphere();
+    const margin = starGeometry.boundingSphere!.radius * 1.35; // Pulse and beat at their largest
+    setModeBounds(TreeMode.FORMED, 'star', getLayoutBounds([0, targetY, 0], space, { margin }));
+    return () => clearModeBounds('star');
+  }, [starGeometry]);
+
   useFrame((state, delta) => {
     if (!ref.current) return;
 
-    // Movement
-    let target = chaosY;
-    if (mode === TreeMode.FORMED) target = targetY;
-    if (mode === TreeMode.TEXT) target = textY;
+    // Colour follows the theme
+    materialRef.current?.color.copy(themeColors.star);
+    materialRef.current?.emissive.copy(themeColors.star);
 
-    ref.current.position.y = THREE.MathUtils.lerp(ref.current.position.y, target, delta * 2);
+    // Movement
+    const w = getLayoutWeights(director);
+    ref.current.position.y = chaosY * w.chaos + targetY * w.formed + textY * (w.text + w.photos + w.mosaic);
 
     // Rotation
     ref.current.rotation.y += delta * 1.5;
@@ -61,9 +78,9 @@ const TopStar: React.FC<{ mode: TreeMode }> = ({ mode }) => {
     ref.current.rotation.z = Math.sin(state.clock.elapsedTime * 2) * 0.1;
     
     // Scale pulse and Hide logic
-    const pulse = 1 + Math.sin(state.clock.elapsedTime * 3) * 0.1;
-    // Hide in TEXT mode
-    const finalScale = (mode === TreeMode.TEXT) ? 0 : pulse;
+    const pulse = 1 + Math.sin(state.clock.elapsedTime * 3) * 0.1 + audioLevels.beat * 0.25; // Kicks with the music
+    // Hide in TEXT, PHOTOS and MOSAIC mode
+    const finalScale = pulse * (w.chaos + w.formed);
     
     ref.current.scale.setScalar(finalScale);
   });
@@ -72,7 +89,7 @@ const TopStar: React.FC<{ mode: TreeMode }> = ({ mode }) => {
     <group ref={ref} position={[0, chaosY, 0]}>
       {/* Core Star */}
       <mesh geometry={starGeometry}>
-        <meshStandardMaterial color={COLORS.gold} roughness={0.2} metalness={0.8} emissive={COLORS.gold} emissiveIntensity={0.2} />
+        <meshStandardMaterial ref={materialRef} roughness={0.2} metalness={0.8} emissiveIntensity={0.2} />
       </mesh>
       
       {/* Halo removed as requested */}
@@ -0,0 +1,185 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { TreeMode } from '../types';
+import { EventEmitter, Listener } from './EventEmitter';
+
+// --- TRANSITION DIRECTOR ---
+// Owns the progress of every mode change, so the scene moves as one and other code
+// can hook into well-defined moments (mode entered, transition finished).
+
+export type Easing = (t: number) => number;
+
+export const EASINGS = {
+  linear: (t: number) => t,
+  easeInOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+export type ModeWeights = Record<TreeMode, number>;
+
+export interface TransitionEvents {
+  modeEnter: [mode: TreeMode, from: TreeMode]; // A transition towards `mode` has started
+  modeExit: [mode: TreeMode, to: TreeMode]; // `mode` is being left
+  transitionComplete: [mode: TreeMode]; // The scene has fully settled into `mode`
+}
+
+export interface TransitionOptions {
+  durations?: Partial<Record<TreeMode, number>>; // Seconds to fully enter each mode
+  easing?: Easing;
+}
+
+const DEFAULT_DURATIONS: Record<TreeMode, number> = {
+  [TreeMode.GIFT]: 1.0,
+  [TreeMode.CHAOS]: 2.0,
+  [TreeMode.FORMED]: 3.0,
+  [TreeMode.TEXT]: 2.5,
+  [TreeMode.PHOTOS]: 2.5,
+  [TreeMode.MOSAIC]: 3.0,
+};
+
+const oneHot = (mode: TreeMode): ModeWeights => {
+  const weights = {} as ModeWeights;
+  Object.values(TreeMode).forEach((m) => {
+    weights[m] = m === mode ? 1 : 0;
+  });
+  return weights;
+};
+
+// Lagged elements are at a different point of an interrupted transition than the rest, so the
+// start of the next one is kept per lag: sampled at these steps and interpolated in between.
+const LAG_STEPS = 20;
+
+export class TransitionDirector extends EventEmitter<TransitionEvents> {
+  mode: TreeMode;
+  from: TreeMode;
+  progress = 1; // Linear 0..1 through the current transition
+  duration = 0;
+  easing: Easing;
+
+  private durations: Record<TreeMode, number>;
+  private startWeights: ModeWeights[]; // One set per lag step, 0..1
+
+  constructor(initialMode: TreeMode, options: TransitionOptions = {}) {
+    super();
+    this.mode = initialMode;
+    this.from = initialMode;
+    this.durations = { ...DEFAULT_DURATIONS, ...options.durations };
+    this.easing = options.easing ?? EASINGS.easeInOutCubic;
+    this.startWeights = Array.from({ length: LAG_STEPS + 1 }, () => oneHot(initialMode));
+  }
+
+  get isTransitioning() {
+    return this.progress < 1;
+  }
+
+  // Starting from wherever the scene currently is makes interrupting and reversing seamless:
+  // the new transition only has to cover the distance that is actually left.
+  setMode(mode: TreeMode) {
+    if (mode === this.mode) return;
+
+    const remaining = 1 - this.getWeight(mode);
+    const startWeights = this.startWeights.map((_, step) => this.getWeights(step / LAG_STEPS));
+
+    this.from = this.mode;
+    this.mode = mode;
+    this.startWeights = startWeights;
+    this.progress = 0;
+    this.duration = this.durations[mode] * Math.max(remaining, 0.2);
+
+    this.emit('modeExit', this.from, mode);
+    this.emit('modeEnter', mode, this.from);
+  }
+
+  update(delta: number) {
+    if (!this.isTransitioning) return;
+
+    this.progress = this.duration > 0 ? Math.min(this.progress + delta / this.duration, 1) : 1;
+    if (!this.isTransitioning) this.emit('transitionComplete', this.mode);
+  }
+
+  // Eased progress. `lag` (0..1) delays the start for elements that should trail behind,
+  // while still arriving at the same time as everything else.
+  getProgress(lag = 0) {
+    // A lag of 1 or more would never start: such elements jump at the very end instead
+    if (lag >= 1) return this.progress >= 1 ? 1 : 0;
+    const local = lag > 0 ? Math.min(Math.max((this.progress - lag) / (1 - lag), 0), 1) : this.progress;
+    return this.easing(local);
+  }
+
+  // How much of `mode`'s layout is currently showing (all weights sum to 1)
+  getWeight(mode: TreeMode, lag = 0) {
+    const start = this.getStartWeight(mode, lag);
+    const target = mode === this.mode ? 1 : 0;
+    return start + (target - start) * this.getProgress(lag);
+  }
+
+  private getStartWeight(mode: TreeMode, lag: number) {
+    const position = Math.min(Math.max(lag, 0), 1) * LAG_STEPS;
+    const step = Math.min(Math.floor(position), LAG_STEPS - 1);
+    const below = this.startWeights[step][mode];
+    return below + (this.startWeights[step + 1][mode] - below) * (position - step);
+  }
+
+  getWeights(lag = 0): ModeWeights {
+    const weights = {} as ModeWeights;
+    Object.values(TreeMode).forEach((m) => {
+      weights[m] = this.getWeight(m, lag);
+    });
+    return weights;
+  }
+}
+
+// The GIFT cover shows the scattered layout behind it, so it counts as chaos for placement
+export const getLayoutWeights = (director: TransitionDirector, lag = 0) => {
+  const weights = director.getWeights(lag);
+  return {
+    chaos: weights[TreeMode.CHAOS] + weights[TreeMode.GIFT],
+    formed: weights[TreeMode.FORMED],
+    text: weights[TreeMode.TEXT],
+    photos: weights[TreeMode.PHOTOS],
+    mosaic: weights[TreeMode.MOSAIC],
+  };
+};
+
+// --- REACT BINDINGS ---
+
+const TransitionContext = createContext<TransitionDirector | null>(null);
+
+export const useTransitionDirector = () => {
+  const director = useContext(TransitionContext);
+  if (!director) throw new Error('useTransitionDirector must be used inside a TransitionProvider');
+  return director;
+};
+
+// Subscribe to a director event for the lifetime of the component
+export const useTransitionEvent = <K extends keyof TransitionEvents>(event: K, listener: Listener<TransitionEvents[K]>) => {
+  const director = useTransitionDirector();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    return director.on(event, (...args) => listenerRef.current(...args));
+  }, [director, event]);
+};
+
+export const TransitionProvider: React.FC<{ mode: TreeMode; options?: TransitionOptions; children: React.ReactNode }> = ({
+  mode,
+  options,
+  children,
+}) => {
+  const [director] = useState(() => new TransitionDirector(mode, options));
+
+  useEffect(() => {
+    director.setMode(mode);
+  }, [director, mode]);
+
+  return <TransitionContext.Provider value={director}>{children}</TransitionContext.Provider>;
+};
+
+// Advances the director once per frame, ahead of every component that reads from it
+export const TransitionDriver: React.FC = () => {
+  const director = useTransitionDirector();
+  useFrame((_, delta) => director.update(delta), -1);
+  return null;
+};
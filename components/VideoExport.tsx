@@ -0,0 +1,349 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { advance, useThree } from '@react-three/fiber';
+import { ShowStep, ShowTimeline, TreeMode } from '../types';
+import { EventEmitter } from './EventEmitter';
+import { getMusicElements, tapMusicStream } from './AudioGraph';
+import { loadFonts } from './FontLoader';
+import { useGreeting } from './GreetingContext';
+import { useTheme } from './ThemeContext';
+import { downloadBlob, drawTitle, getFileStem, TITLE_FONT } from './Snapshot';
+
+// --- VIDEO EXPORT ---
+// Records the greeting (gift cover, then the show timeline once through) into a WebM file.
+// While recording, the render loop is stopped and every frame is advanced by exactly one
+// fixed step, so slow machines still produce every frame with smooth motion. Frames are
+// composited onto a 2D canvas together with the parts the DOM normally draws (cover, title)
+// and streamed to a MediaRecorder alongside the music from the audio graph.
+
+export const VIDEO_FPS = 30;
+const FRAME_MS = 1000 / VIDEO_FPS;
+const MAX_VIDEO_EDGE = 1920;
+const VIDEO_BITRATE = 8_000_000;
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const STEP_COMMIT_TIMEOUT = 1000; // Ms; a step the scene never picks up must not stall the recording
+
+// Gift cover timing, matching the overlay's opening animation
+const COVER_HOLD = 2.5; // Closed gift on screen before the "click"
+const COVER_OPEN = 1.5; // Click to scene switch
+const COVER_FADE_START = 0.8; // After the click
+const COVER_FADE = 1.0;
+const COVER_FONT = { family: 'Cinzel Decorative', weight: 900 };
+
+// What the recorder needs from the canvas; provided by VideoExportRenderer
+export interface FrameSource {
+  canvas: HTMLCanvasElement;
+  begin: () => void; // Take over the render loop
+  render: (time: number) => void; // Render the frame at this many seconds into the recording
+  end: () => void; // Hand the render loop back
+}
+
+export interface RecorderEvents {
+  step: [step: ShowStep, index: number]; // Apply this step to the scene
+  progress: [time: number, duration: number];
+  stateChange: [recording: boolean];
+}
+
+export interface RecordingOptions {
+  timeline: ShowTimeline; // Played once from the start, after the gift cover
+  title: string; // Drawn over FORMED steps like the on-screen title
+  cover: { lines: string[]; background: string; ribbon: string }; // Colours as CSS colour strings
+}
+
+// The cover as a GIFT step, then the timeline with its music started from the top
+export const getRecordingSteps = (timeline: ShowTimeline): ShowStep[] => [
+  { mode: TreeMode.GIFT, duration: COVER_HOLD + COVER_OPEN },
+  ...timeline.steps.map((step, i) =>
+    i === 0 ? { ...step, music: typeof step.music === 'number' ? step.music : 0 } : step
+  ),
+];
+
+const getStepIndex = (steps: ShowStep[], time: number) => {
+  let elapsed = 0;
+  for (let i = 0; i < steps.length; i++) {
+    elapsed += steps[i].duration;
+    if (time < elapsed) return i;
+  }
+  return steps.length - 1;
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, Math.max(0, ms)));
+const even = (n: number) => Math.max(2, Math.floor(n / 2) * 2);
+
+// The closed gift from the overlay: background, greeting lines and the crossed ribbons
+const drawCover = (ctx: CanvasRenderingContext2D, width: number, height: number, cover: RecordingOptions['cover'], opened: number) => {
+  const px = width / window.innerWidth; // CSS pixels to video pixels
+  const wide = window.innerWidth >= 640;
+
+  ctx.save();
+  ctx.globalAlpha = 1 - opened;
+  ctx.translate(width / 2, height / 2);
+  ctx.scale(1 + 0.1 * opened, 1 + 0.1 * opened);
+  ctx.translate(-width / 2, -height / 2);
+  if (opened > 0) ctx.filter = `blur(${40 * opened * px}px)`;
+
+  ctx.fillStyle = cover.background;
+  ctx.fillRect(0, 0, width, height);
+
+  // Lines: text-[15vw] / sm:text-[18vw], leading 0.85, pulled together by 2vw
+  const size = width * (wide ? 0.18 : 0.15);
+  const step = size * 0.85 - width * 0.02;
+  ctx.font = `${COVER_FONT.weight} ${size}px "${COVER_FONT.family}", serif`;
+  ctx.letterSpacing = `${-0.05 * size}px`;
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const top = height / 2 - (step * (cover.lines.length - 1)) / 2;
+  cover.lines.forEach((line, i) => ctx.fillText(line, width / 2, top + i * step));
+
+  // Ribbons: theme accent with thin white edges, and the knot where they cross
+  const ribbon = (wide ? 32 : 20) * px;
+  const edge = 1.5 * px;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(width / 2 - ribbon / 2, 0, ribbon, height);
+  ctx.fillRect(0, height / 2 - ribbon / 2, width, ribbon);
+  ctx.fillStyle = cover.ribbon;
+  ctx.fillRect(width / 2 - ribbon / 2 + edge, 0, ribbon - edge * 2, height);
+  ctx.fillRect(0, height / 2 - ribbon / 2 + edge, width, ribbon - edge * 2);
+
+  const knot = ((wide ? 36 : 24) / 2) * px;
+  ctx.beginPath();
+  ctx.arc(width / 2, height / 2, knot, 0, Math.PI * 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(width / 2, height / 2, knot - edge, 0, Math.PI * 2);
+  ctx.fillStyle = cover.ribbon;
+  ctx.fill();
+  ctx.restore();
+};
+
+export class VideoRecorder extends EventEmitter<RecorderEvents> {
+  recording = false;
+
+  private source: FrameSource | null = null;
+  private cancelled = false;
+  private committed: (() => void) | null = null; // Resolves the wait for the current step
+
+  // Called by the scene once React has committed a step, effects included
+  stepCommitted() {
+    this.committed?.();
+    this.committed = null;
+  }
+
+  attach(source: FrameSource | null) {
+    this.source = source;
+  }
+
+  cancel() {
+    this.cancelled = true;
+  }
+
+  // Resolves with the WebM file, or null if cancelled
+  async record(options: RecordingOptions): Promise<Blob | null> {
+    const source = this.source;
+    if (!source) throw new Error('The scene is not ready to record yet');
+    if (this.recording) throw new Error('Already recording');
+    const mimeType = typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+    await loadFonts([TITLE_FONT, COVER_FONT]);
+
+    const steps = getRecordingSteps(options.timeline);
+    const duration = steps.reduce((sum, step) => sum + step.duration, 0);
+    const frames = Math.ceil(duration * VIDEO_FPS);
+
+    const scale = Math.min(1, MAX_VIDEO_EDGE / Math.max(source.canvas.width, source.canvas.height));
+    const output = document.createElement('canvas');
+    output.width = even(source.canvas.width * scale);
+    output.height = even(source.canvas.height * scale);
+    const ctx = output.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    // Frames are pushed by hand, one per fixed step
+    const stream = output.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const music = tapMusicStream();
+    music?.stream.getAudioTracks().forEach((audioTrack) => stream.addTrack(audioTrack));
+
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    // When a frame takes longer than its slot, the recording and the music wait for it together
+    let held = false;
+    let heldMusic: HTMLAudioElement[] = []; // Both decks while the player crossfades
+    const hold = () => {
+      recorder.pause();
+      heldMusic = getMusicElements().filter((element) => !element.paused);
+      heldMusic.forEach((element) => element.pause());
+      held = true;
+    };
+    const release = () => {
+      heldMusic.forEach((element) => element.play().catch((e) => console.error('Audio playback failed:', e)));
+      recorder.resume();
+      held = false;
+    };
+
+    this.cancelled = false;
+    this.recording = true;
+    this.emit('stateChange', true);
+    source.begin();
+    recorder.start(1000);
+
+    try {
+      let stepIndex = -1;
+      let slotEnd = performance.now();
+      let renderMs = 0;
+
+      for (let frame = 0; frame < frames && !this.cancelled; frame++) {
+        const time = frame / VIDEO_FPS;
+        const slow = renderMs > FRAME_MS * 0.8;
+        if (slow) {
+          await sleep(slotEnd - performance.now());
+          hold();
+        }
+
+        const index = getStepIndex(steps, time);
+        if (index !== stepIndex) {
+          stepIndex = index;
+          const committed = new Promise<void>((resolve) => {
+            this.committed = resolve;
+          });
+          this.emit('step', steps[index], index);
+          await Promise.race([committed, sleep(STEP_COMMIT_TIMEOUT)]);
+        }
+
+        const started = performance.now();
+        source.render(time);
+        ctx.drawImage(source.canvas, 0, 0, output.width, output.height);
+        if (steps[index].mode === TreeMode.FORMED) drawTitle(ctx, output.width, output.height, options.title);
+        const opened = Math.min(Math.max((time - COVER_HOLD - COVER_FADE_START) / COVER_FADE, 0), 1);
+        if (opened < 1) drawCover(ctx, output.width, output.height, options.cover, opened);
+        renderMs = performance.now() - started;
+
+        if (held) {
+          release();
+          slotEnd = performance.now();
+        } else {
+          await sleep(slotEnd - performance.now());
+        }
+        track.requestFrame();
+        slotEnd += FRAME_MS;
+        this.emit('progress', time, duration);
+      }
+    } finally {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+        await stopped;
+      }
+      if (held) heldMusic.forEach((element) => element.play().catch(() => {}));
+      music?.release();
+      stream.getTracks().forEach((t) => t.stop());
+      source.end();
+      this.recording = false;
+      this.emit('stateChange', false);
+    }
+
+    return this.cancelled ? null : new Blob(chunks, { type: 'video/webm' });
+  }
+}
+
+interface VideoExportContextValue {
+  recorder: VideoRecorder;
+  recording: boolean;
+  steps: number; // Recorded steps applied so far; changes with every step
+}
+
+const VideoExportContext = createContext<VideoExportContextValue | null>(null);
+
+export const useVideoExport = () => {
+  const videoExport = useContext(VideoExportContext);
+  if (!videoExport) throw new Error('useVideoExport must be used inside a VideoExportProvider');
+  return videoExport;
+};
+
+export const VideoExportProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const recorder = useMemo(() => new VideoRecorder(), []);
+  const [recording, setRecording] = useState(false);
+  const [steps, setSteps] = useState(0);
+
+  useEffect(() => recorder.on('stateChange', setRecording), [recorder]);
+  // Batched with the app's own state for the step, so the scene receives both in one commit
+  useEffect(() => recorder.on('step', () => setSteps((count) => count + 1)), [recorder]);
+
+  const value = useMemo(() => ({ recorder, recording, steps }), [recorder, recording, steps]);
+
+  return <VideoExportContext.Provider value={value}>{children}</VideoExportContext.Provider>;
+};
+
+// Lives inside the Canvas and lends its render loop to the recorder
+export const VideoExportRenderer: React.FC = () => {
+  const { recorder, steps } = useVideoExport();
+  const get = useThree((state) => state.get);
+
+  // The scene's effects for a step all run in the same flush as this one, before the recorder
+  // resumes, so its first frame already shows the step
+  useEffect(() => recorder.stepCommitted(), [recorder, steps]);
+
+  useEffect(() => {
+    recorder.attach({
+      canvas: get().gl.domElement,
+      // Stopping the loop also restarts the clock at zero, so every recording starts from the same time
+      begin: () => get().setFrameloop('never'),
+      render: (time) => advance(time, true, get()),
+      end: () => get().setFrameloop('always'),
+    });
+    return () => recorder.attach(null);
+  }, [recorder, get]);
+
+  return null;
+};
+
+// "Record video" button with progress and cancel, shown under the picture button
+export const VideoExportControl: React.FC = () => {
+  const { recorder, recording } = useVideoExport();
+  const { title, cover, show } = useGreeting();
+  const { theme } = useTheme();
+  const [progress, setProgress] = useState(0);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => recorder.on('progress', (time, duration) => setProgress(time / duration)), [recorder]);
+
+  const record = async () => {
+    setFailed(false);
+    setProgress(0);
+    try {
+      const blob = await recorder.record({
+        timeline: show,
+        title,
+        cover: { lines: cover.lines, background: theme.background, ribbon: theme.ui.accent },
+      });
+      if (blob) downloadBlob(blob, `${getFileStem(title)}.webm`);
+    } catch (e) {
+      console.error('Failed to record the video:', e);
+      setFailed(true);
+    }
+  };
+
+  const buttonClass = 'bg-white/20 backdrop-blur-md border border-white/30 text-[var(--theme-accent-dark)] hover:text-[var(--theme-message)] font-bold py-1 px-3 rounded-full shadow-lg flex items-center gap-2 text-sm transition-colors duration-300';
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      {recording ? (
+        <button onClick={() => recorder.cancel()} className={buttonClass}>
+          <span className="animate-pulse">🔴</span> Recording {Math.round(progress * 100)}% · Cancel
+        </button>
+      ) : (
+        <button onClick={record} className={buttonClass}>
+          <span>🎬</span> Record video
+        </button>
+      )}
+      {failed && <p className="text-[var(--theme-message)] text-xs bg-white/40 rounded-full px-3 py-1">Couldn't record the video in this browser.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { generateInstanceData, InstancePlacement, InstanceWeight } from '../components/MathUtils';
+import { createRng } from '../components/Random';
+
+// --- DETERMINISM CHECK ---
+// One seed must always give the same layout, and another seed a different one.
+// Run with `npm run check:determinism`.
+
+const WEIGHTS: InstanceWeight[] = ['foliage', 'heavy', 'light', 'floating', 'upright'];
+const PLACEMENTS: InstancePlacement[] = ['spiral', 'pile', 'floor-ring', 'strands'];
+const COUNT = 200;
+
+const layout = (seed: string, weight: InstanceWeight, placement: InstancePlacement) =>
+  generateInstanceData(COUNT, weight, createRng(`${seed}:check`), placement);
+
+WEIGHTS.forEach((weight) => {
+  PLACEMENTS.forEach((placement) => {
+    const label = `${weight}/${placement}`;
+    assert.deepEqual(layout('A6', weight, placement), layout('A6', weight, placement), `${label}: same seed, different layout`);
+    assert.notDeepEqual(layout('A6', weight, placement), layout('B7', weight, placement), `${label}: seed is ignored`);
+  });
+});
+
+console.log(`Layouts are deterministic (${WEIGHTS.length * PLACEMENTS.length} weight/placement pairs)`);
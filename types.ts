@@ -4,7 +4,9 @@ export enum TreeMode {
   CHAOS = 'CHAOS',
   FORMED = 'FORMED',
   TEXT = 'TEXT',
-  GIFT = 'GIFT'
+  GIFT = 'GIFT',
+  PHOTOS = 'PHOTOS', // Polaroids on a rotating carousel, the tree scattered behind them
+  MOSAIC = 'MOSAIC' // Foliage particles recreate one photo
 }
 
 export interface DualPosition {
@@ -16,8 +18,6 @@ export interface DualPosition {
   color: string;
 }
 
-export type OrnamentType = 'GIFT' | 'BALL' | 'LIGHT' | 'CAR';
-
 // Palette
 export const COLORS = {
   skyBlue: '#87CEEB',
@@ -30,6 +30,129 @@ export const COLORS = {
   foliagePink: '#DB7093',
 };
 
+export type Palette = { [K in keyof typeof COLORS]: string };
+
+// --- THEMES ---
+// Every colour the scene and the UI use, by role. Switching themes blends from one to the next.
+
+export interface Theme {
+  id: string;
+  label: string;
+  background: string; // Scene clear colour and the closed gift's wrapping
+  fog: string;
+  lights: {
+    ambient: string;
+    key: string; // Point light to the side
+    spot: string; // Spotlight from above
+  };
+  foliage: {
+    tree: [string, string]; // Each needle is a random blend between the two
+    textBottom: string; // Particle text gradient, bottom to top
+    textTop: string;
+    scan: string; // Scanline sweeping up the particle text
+  };
+  ribbon: {
+    deep: string; // Ribbon body around the particle text
+    edge: string;
+    stardust: string;
+  };
+  ornaments: {
+    gifts: string[];
+    giftRibbon: string;
+    cars: string[];
+    baubles: string;
+    lights: string;
+  };
+  star: string;
+  bloom: {
+    intensity: number;
+    threshold: number; // Luminance above which things glow
+  };
+  ui: {
+    accent: string; // Gift ribbons on the cover
+    accentDark: string;
+    accentLight: string; // Gift tag
+    text: string; // Tag lettering
+    message: string; // Opened gift's note
+    cursor: string;
+  };
+}
+
+// --- GREETING CONFIG ---
+// Everything personal about a greeting lives here, so one build can serve many recipients.
+
+export interface GreetingLine {
+  text: string;
+  size: number; // Font size in canvas pixels, relative to the other lines
+  weight?: number; // Font weight, defaults to 900
+}
+
+export interface GreetingPhoto {
+  url: string;
+  caption?: string; // Handwritten under the photo, shrunk to fit
+  date?: string; // Shown as a film-camera date stamp, e.g. "2024-12-25"
+}
+
+export interface GreetingTrack {
+  url: string;
+  title: string;
+  lyrics?: string; // URL of an .lrc or WebVTT (.vtt) file timed to this track
+}
+
+// Where timed lyrics appear: as a subtitle line, or also as the particle text in TEXT mode
+export type LyricsDisplay = 'off' | 'subtitles' | 'particles';
+
+// Animated patterns for the light strands wound around the tree
+export type LightProgram = 'steady' | 'twinkle' | 'chase' | 'breathe' | 'colour-wheel' | 'sparkle';
+
+// --- SHOW TIMELINE ---
+// A scripted sequence the app can play unattended (e.g. on a big screen)
+
+export type MusicCue = 'play' | 'pause' | number; // A number plays that track from the start
+
+export interface ShowStep {
+  mode: TreeMode;
+  duration: number; // Seconds
+  camera?: string; // Camera shot name, see CAMERA_SHOTS
+  textPage?: number; // Index into GreetingConfig.textPages; the headline when omitted
+  photo?: number; // Photo index for MOSAIC mode; wraps around, so -1 is the last photo
+  music?: MusicCue;
+  lights?: LightProgram; // The strands keep running it after the step ends
+}
+
+export interface ShowTimeline {
+  steps: ShowStep[];
+  loop?: boolean;
+  autoplay?: boolean;
+}
+
+export interface GreetingConfig {
+  recipient: string;
+  seed: string | number; // Layout seed: the same seed always builds the same tree
+  title: string; // Overlay title shown in FORMED mode
+  headline: GreetingLine[]; // Particle text shown in TEXT mode
+  textPages: GreetingLine[][]; // Extra particle text pages a show can switch to
+  cover: {
+    lines: string[]; // Large text behind the ribbons
+    tagTitle: string;
+    tagSubtitle: string;
+  };
+  photos: GreetingPhoto[];
+  music: GreetingTrack[];
+  giftMessages: string[]; // Revealed one per gift when a gift under the tree is clicked open
+  palette: Palette; // Colours of the default theme
+  theme?: string; // Starting theme id, see getThemePresets; visitors can still switch
+  lyrics?: LyricsDisplay; // How tracks' lyrics are shown at first; visitors can still switch
+  lights?: LightProgram; // Starting light program; visitors can still switch
+  show: ShowTimeline;
+}
+
+// Shape of a greeting JSON file: every field is optional and falls back to the defaults
+export type GreetingConfigInput = Partial<Omit<GreetingConfig, 'cover' | 'palette'>> & {
+  cover?: Partial<GreetingConfig['cover']>;
+  palette?: Partial<Palette>;
+};
+
 // Augment Global JSX namespace
 declare global {
   namespace JSX {